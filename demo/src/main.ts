@@ -36,9 +36,9 @@ const customSchema = {
 		serial: column.int().pk().auto(),
 		task: column.text().unique(),
 		completed: column.bool().default(false),
-		uuid: column.uuid().default(uuid({ version: 'v6' })),
+		uuid: column.uuid().default(() => uuid({ version: 'v6' })),
 		timestamp: column.timestamp().optional(),
-		createdAt: column.timestamp().default(new Chronos().toLocalISOString()),
+		createdAt: column.timestamp().default(() => new Chronos().toLocalISOString()),
 	}),
 };
 
@@ -47,10 +47,9 @@ const schema = defineSchema({
 		serial: column.int().pk().auto(),
 		task: column.text().unique(),
 		completed: column.bool().default(false),
-		uuid: column.uuid().default(uuid({ version: 'v6' })),
+		uuid: column.uuid().default(() => uuid({ version: 'v6' })),
 		timestamp: column.timestamp().optional(),
-		// .default(new Chronos().toLocalISOString())
-		createdAt: column.timestamp().default(new Chronos().toLocalISOString()),
+		createdAt: column.timestamp().default(() => new Chronos().toLocalISOString()),
 		updatedAt: column.timestamp().onUpdate(() => getTimestamp()),
 		url: column.url().optional(),
 	},
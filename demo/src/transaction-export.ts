@@ -8,21 +8,21 @@ const testSchema = defineSchema({
 		id: column.int().pk().auto(),
 		name: column.text(),
 		email: column.text().unique(),
-		createdAt: column.timestamp().default(new Chronos().toLocalISOString() as Timestamp),
+		createdAt: column.timestamp().default(() => new Chronos().toLocalISOString() as Timestamp),
 	},
 	posts: {
 		id: column.int().pk().auto(),
 		userId: column.int().index(),
 		title: column.text(),
 		content: column.text(),
-		createdAt: column.timestamp().default(new Chronos().toLocalISOString() as Timestamp),
+		createdAt: column.timestamp().default(() => new Chronos().toLocalISOString() as Timestamp),
 	},
 	comments: {
 		id: column.int().pk().auto(),
 		postId: column.int().index(),
 		userId: column.int().index(),
 		text: column.text(),
-		createdAt: column.timestamp().default(new Chronos().toLocalISOString() as Timestamp),
+		createdAt: column.timestamp().default(() => new Chronos().toLocalISOString() as Timestamp),
 	},
 });
 
@@ -0,0 +1,166 @@
+import { afterEach, describe, expect, expectTypeOf, it, vi } from 'vitest';
+
+import { column, defineSchema, eq } from '..';
+import { seedDB } from './fixtures';
+
+const schema = defineSchema({
+	orders: {
+		id: column.int().pk().auto(),
+		status: column.text().index(),
+		amount: column.int().index(),
+		discount: column.int().nullable().default(null),
+		region: column.text().nullable().default(null),
+	},
+});
+
+const seed = () =>
+	seedDB(
+		{ dbName: 'aggregates', schema },
+		{
+			orders: [
+				{ status: 'paid', amount: 10, discount: 1, region: 'eu' },
+				{ status: 'paid', amount: 30, region: 'us' },
+				{ status: 'open', amount: 5 },
+				{ status: 'refunded', amount: 20, discount: 4, region: 'eu' },
+				{ status: 'paid', amount: 25, discount: 2, region: 'us' },
+			],
+		}
+	);
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('sum() and avg()', () => {
+	it('skips null values and ignores orderBy, limit and offset', async () => {
+		const db = await seed();
+		const query = () => db.from('orders').orderBy('amount').offset(1).limit(2);
+
+		expect(await query().sum('amount')).toBe(90);
+		expect(await query().avg('amount')).toBe(18);
+		expect(await query().sum('discount')).toBe(7);
+		expect(await query().avg('discount')).toBe(7 / 3);
+	});
+
+	it('aggregates the matching rows only', async () => {
+		const db = await seed();
+		const paid = () => db.from('orders').where(eq('status', 'paid'));
+
+		expect(await paid().sum('amount')).toBe(65);
+		expect(await paid().avg('discount')).toBe(1.5);
+	});
+
+	it('resolves to 0 and null without values', async () => {
+		const db = await seed();
+		const none = () => db.from('orders').where(eq('status', 'lost'));
+
+		expect(await none().sum('amount')).toBe(0);
+		expect(await none().avg('amount')).toBeNull();
+		expect(await db.from('orders').where(eq('status', 'open')).avg('discount')).toBeNull();
+	});
+});
+
+describe('min() and max()', () => {
+	it('reads one entry of an index in the right direction', async () => {
+		const db = await seed();
+		const openCursor = vi.spyOn(IDBIndex.prototype, 'openCursor');
+		const getAll = vi.spyOn(IDBObjectStore.prototype, 'getAll');
+
+		expect(await db.from('orders').min('amount')).toBe(5);
+		expect(await db.from('orders').max('amount')).toBe(30);
+		expect(openCursor.mock.calls.map(([, direction]) => direction)).toEqual([
+			'next',
+			'prev',
+		]);
+		expect(getAll).not.toHaveBeenCalled();
+	});
+
+	it('skips index entries rejected by an in-memory filter', async () => {
+		const db = await seed();
+		const query = () => db.from('orders').where((order) => order.status !== 'paid');
+
+		expect(await query().min('amount')).toBe(5);
+		expect(await query().max('amount')).toBe(20);
+		expect(await db.from('orders').where(eq('status', 'paid')).max('amount')).toBe(30);
+	});
+
+	it('scans non-indexed fields, skipping null values', async () => {
+		const db = await seed();
+
+		expect(await db.from('orders').min('region')).toBe('eu');
+		expect(await db.from('orders').max('region')).toBe('us');
+		expect(await db.from('orders').min('discount')).toBe(1);
+		expect(await db.from('orders').where(eq('status', 'open')).max('discount')).toBeNull();
+		expect(await db.from('orders').where(eq('status', 'lost')).min('amount')).toBeNull();
+	});
+});
+
+describe('groupBy()', () => {
+	it('counts the rows of each group, sorted by key', async () => {
+		const db = await seed();
+
+		expect(await db.from('orders').groupBy('status')).toEqual([
+			{ key: 'open', count: 1 },
+			{ key: 'paid', count: 3 },
+			{ key: 'refunded', count: 1 },
+		]);
+		expect(
+			await db
+				.from('orders')
+				.where((order) => order.amount > 10)
+				.groupBy('status')
+		).toEqual([
+			{ key: 'paid', count: 2 },
+			{ key: 'refunded', count: 1 },
+		]);
+	});
+
+	it('aggregates each group and sorts the null key last', async () => {
+		const db = await seed();
+
+		const groups = await db.from('orders').groupBy('region', {
+			sum: ['amount'],
+			avg: ['discount'],
+			min: ['status'],
+			max: ['amount'],
+		});
+
+		expectTypeOf(groups).toEqualTypeOf<
+			Array<{
+				key: string | null;
+				count: number;
+				sum: { amount: number };
+				avg: { discount: number | null };
+				min: { status: string | null };
+				max: { amount: number | null };
+			}>
+		>();
+
+		expect(groups).toEqual([
+			{
+				key: 'eu',
+				count: 2,
+				sum: { amount: 30 },
+				avg: { discount: 2.5 },
+				min: { status: 'paid' },
+				max: { amount: 20 },
+			},
+			{
+				key: 'us',
+				count: 2,
+				sum: { amount: 55 },
+				avg: { discount: 2 },
+				min: { status: 'paid' },
+				max: { amount: 30 },
+			},
+			{
+				key: null,
+				count: 1,
+				sum: { amount: 5 },
+				avg: { discount: null },
+				min: { status: 'open' },
+				max: { amount: 5 },
+			},
+		]);
+	});
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { column, defineSchema } from '..';
+import { openDB } from './fixtures';
+
+const schema = defineSchema({
+	events: {
+		id: column.int().pk().auto(),
+		code: column.text().unique(),
+	},
+});
+
+const events = (count: number, from = 0) =>
+	Array.from({ length: count }, (_, i) => ({ code: `e${from + i}` }));
+
+describe('chunked inserts', () => {
+	it('reports progress after each committed chunk', async () => {
+		const db = openDB({ dbName: 'bulk', schema });
+		const onProgress = vi.fn();
+
+		const rows = await db
+			.insert('events')
+			.values(events(7))
+			.run({ chunkSize: 3, onProgress });
+
+		expect(rows.map((row) => row.id)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+		expect(onProgress.mock.calls).toEqual([
+			[{ processed: 3, total: 7 }],
+			[{ processed: 6, total: 7 }],
+			[{ processed: 7, total: 7 }],
+		]);
+	});
+
+	it('rolls back only the failing chunk', async () => {
+		const db = openDB({ dbName: 'bulk', schema });
+		const onProgress = vi.fn();
+
+		// The duplicate code fails the second chunk
+		const rows = [...events(4), { code: 'e0' }, ...events(3, 10)];
+
+		await expect(
+			db.insert('events').values(rows).run({ chunkSize: 3, onProgress })
+		).rejects.toThrow();
+
+		expect(onProgress.mock.calls).toEqual([[{ processed: 3, total: 8 }]]);
+		expect((await db.from('events').findAll()).map((row) => row.code)).toEqual([
+			'e0',
+			'e1',
+			'e2',
+		]);
+	});
+
+	it('resolves to the number of written rows without returning', async () => {
+		const db = openDB({ dbName: 'bulk', schema });
+
+		const count = await db
+			.insert('events')
+			.values(events(5))
+			.run({ returning: false, chunkSize: 2 });
+
+		expect(count).toBe(5);
+		expect(await db.from('events').count()).toBe(5);
+
+		const upserted = await db
+			.insert('events')
+			.values(events(3, 4))
+			.onConflictDoNothing()
+			.run({ returning: false });
+
+		expect(upserted).toBe(2);
+	});
+
+	it('rejects invalid chunk sizes', async () => {
+		const db = openDB({ dbName: 'bulk', schema });
+
+		await expect(
+			db.insert('events').values(events(2)).run({ chunkSize: 0 })
+		).rejects.toThrow(new RangeError('Chunk size must be a positive integer, received 0!'));
+		expect(await db.from('events').count()).toBe(0);
+	});
+});
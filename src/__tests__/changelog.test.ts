@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+
+import { column, defineSchema } from '..';
+import { openDB, seedDB } from './fixtures';
+
+const schema = defineSchema({
+	notes: { id: column.int().pk().auto(), body: column.text() },
+});
+
+const seed = () =>
+	seedDB(
+		{ dbName: 'changelog', schema, changeLog: true },
+		{ notes: [{ body: 'a' }, { body: 'b' }] }
+	);
+
+/** Entries without their timestamps */
+const entries = (list: Array<{ timestamp: unknown }>) =>
+	list.map(({ timestamp: _, ...entry }) => entry);
+
+describe('change log', () => {
+	it('logs inserts, updates and deletes with their images', async () => {
+		const db = await seed();
+
+		await db.update('notes').set({ body: 'B' }).wherePk(2).run();
+		await db.delete('notes').wherePk(1).run();
+
+		expect(entries(await db.changes.since())).toEqual([
+			{
+				seq: 1,
+				table: 'notes',
+				key: 1,
+				op: 'insert',
+				before: null,
+				after: { id: 1, body: 'a' },
+			},
+			{
+				seq: 2,
+				table: 'notes',
+				key: 2,
+				op: 'insert',
+				before: null,
+				after: { id: 2, body: 'b' },
+			},
+			{
+				seq: 3,
+				table: 'notes',
+				key: 2,
+				op: 'update',
+				before: { id: 2, body: 'b' },
+				after: { id: 2, body: 'B' },
+			},
+			{
+				seq: 4,
+				table: 'notes',
+				key: 1,
+				op: 'delete',
+				before: { id: 1, body: 'a' },
+				after: null,
+			},
+		]);
+	});
+
+	it('logs cleared tables and imports', async () => {
+		const db = await seed();
+
+		await db.clearTable('notes');
+		await db.import({ notes: [{ id: 5, body: 'e' }] });
+		await db.import({ notes: [{ id: 5, body: 'E' }] }, { mode: 'upsert' });
+
+		expect(entries(await db.changes.since(2))).toEqual([
+			{ seq: 3, table: 'notes', key: null, op: 'clear', before: null, after: null },
+			{
+				seq: 4,
+				table: 'notes',
+				key: 5,
+				op: 'insert',
+				before: null,
+				after: { id: 5, body: 'e' },
+			},
+			{
+				seq: 5,
+				table: 'notes',
+				key: 5,
+				op: 'update',
+				before: { id: 5, body: 'e' },
+				after: { id: 5, body: 'E' },
+			},
+		]);
+	});
+
+	it('reads after a sequence number and prunes up to one', async () => {
+		const db = await seed();
+
+		await db.insert('notes').values({ body: 'c' }).run();
+
+		expect((await db.changes.since(1, 1)).map((entry) => entry.seq)).toEqual([2]);
+		expect(await db.changes.prune(2)).toBe(2);
+		expect((await db.changes.since()).map((entry) => entry.seq)).toEqual([3]);
+	});
+
+	it('logs nothing for aborted writes', async () => {
+		const db = await seed();
+
+		await expect(
+			db.insert('notes').values({ id: 1, body: 'duplicate' }).run()
+		).rejects.toThrow();
+
+		expect(await db.changes.since(2)).toEqual([]);
+	});
+
+	it('rejects when enabled on a database that was not upgraded', async () => {
+		const plain = await seedDB({ dbName: 'changelog', schema }, { notes: [{ body: 'a' }] });
+
+		plain.close();
+
+		const db = openDB({ dbName: 'changelog', schema, changeLog: true });
+
+		await expect(db.ready()).rejects.toThrow(
+			'The change log store "_changes" does not exist in database "changelog" (version 1). Bump the version'
+		);
+		await expect(db.insert('notes').values({ body: 'b' }).run()).rejects.toThrow(
+			'Bump the version'
+		);
+
+		const upgraded = openDB({ dbName: 'changelog', version: 2, schema, changeLog: true });
+
+		await upgraded.insert('notes').values({ body: 'b' }).run();
+
+		expect((await upgraded.changes.since()).map((entry) => entry.key)).toEqual([2]);
+	});
+});
@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+
+import { column, defineSchema, Locality, table } from '..';
+import type { Column } from '..';
+import { seedDB } from './fixtures';
+
+const users = table('users', {
+	id: column.int().pk().auto(),
+	email: column.text().unique(),
+	name: column.text(),
+});
+
+const posts = table('posts', {
+	id: column.int().pk().auto(),
+	userId: column
+		.int()
+		.index()
+		.references(() => users.columns.id, { onDelete: 'cascade' }),
+	reviewer: column
+		.text()
+		.nullable()
+		.references(() => users.columns.email, { onDelete: 'setNull' }),
+});
+
+const comments = table('comments', {
+	id: column.int().pk().auto(),
+	postId: column
+		.int()
+		.index()
+		.references(() => posts.columns.id, { onDelete: 'cascade' }),
+	editor: column
+		.int()
+		.optional()
+		.references(() => users.columns.id, { onDelete: 'setNull' }),
+});
+
+const categories = table('categories', {
+	id: column.int().pk(),
+	parentId: column
+		.int()
+		.optional()
+		.references((): Column<number> => categories.columns.id),
+});
+
+const likes = table('likes', {
+	id: column.int().pk().auto(),
+	postId: column
+		.int()
+		.index()
+		.references(() => posts.columns.id),
+});
+
+const schema = defineSchema({ users, posts, comments, likes, categories });
+
+const seed = () =>
+	seedDB(
+		{ dbName: 'constraints', schema },
+		{
+			users: [
+				{ email: 'ann@x.dev', name: 'Ann' },
+				{ email: 'bob@x.dev', name: 'Bob' },
+			],
+			posts: [
+				{ userId: 1, reviewer: 'bob@x.dev' },
+				{ userId: 2, reviewer: 'ann@x.dev' },
+			],
+			comments: [
+				{ postId: 1, editor: 2 },
+				{ postId: 2, editor: 1 },
+			],
+		}
+	);
+
+describe('parent checks', () => {
+	it('rejects inserts referencing missing rows', async () => {
+		const db = await seed();
+
+		await expect(
+			db.insert('posts').values({ userId: 42, reviewer: null }).run()
+		).rejects.toThrow(
+			`Foreign key constraint failed on column 'userId' of table "posts": no row in "users" has 'id' = 42.`
+		);
+		expect(await db.from('posts').count()).toBe(2);
+	});
+
+	it('finds parents written in the same insert', async () => {
+		const db = await seed();
+
+		await db
+			.insert('categories')
+			.values([{ id: 2, parentId: 1 }, { id: 1 }])
+			.run();
+
+		expect(await db.from('categories').count()).toBe(2);
+	});
+
+	it('checks only the columns an update sets', async () => {
+		const db = await seed();
+
+		await expect(db.update('posts').set({ userId: 42 }).wherePk(1).run()).rejects.toThrow(
+			'Foreign key constraint failed'
+		);
+		expect(await db.update('posts').set({ reviewer: null }).wherePk(1).run()).toBe(1);
+		expect(await db.from('posts').findByPk(1)).toEqual({
+			id: 1,
+			userId: 1,
+			reviewer: null,
+		});
+	});
+});
+
+describe('delete policies', () => {
+	it('cascades deletes and sets references to null', async () => {
+		const db = await seed();
+
+		expect(await db.delete('users').wherePk(1).run()).toBe(1);
+
+		expect(await db.from('posts').findAll()).toEqual([
+			{ id: 2, userId: 2, reviewer: null },
+		]);
+		expect(await db.from('comments').findAll()).toEqual([{ id: 2, postId: 2 }]);
+	});
+
+	it('rolls back the whole delete when a restrict policy fails', async () => {
+		const db = await seed();
+
+		await db.insert('likes').values({ postId: 1 }).run();
+
+		await expect(db.delete('users').wherePk(1).run()).rejects.toThrow(
+			`Foreign key constraint failed on column 'postId' of table "likes": cannot delete from "posts" while 1 row(s) reference it (onDelete: 'restrict').`
+		);
+		expect(await db.from('users').count()).toBe(2);
+		expect(await db.from('posts').count()).toBe(2);
+		expect(await db.from('comments').count()).toBe(2);
+	});
+
+	it('deletes self-referencing rows together', async () => {
+		const db = await seed();
+
+		await db
+			.insert('categories')
+			.values([{ id: 1 }, { id: 2, parentId: 1 }])
+			.run();
+
+		await expect(db.delete('categories').wherePk(1).run()).rejects.toThrow(
+			"(onDelete: 'restrict')"
+		);
+		expect(await db.delete('categories').run()).toBe(2);
+	});
+});
+
+describe('schema validation', () => {
+	it('rejects foreign keys to non-unique columns and setNull on required columns', () => {
+		const owners = table('owners', { id: column.int().pk(), name: column.text() });
+
+		expect(
+			() =>
+				new Locality({
+					dbName: 'invalid',
+					schema: defineSchema({
+						owners,
+						pets: {
+							id: column.int().pk(),
+							owner: column.text().references(() => owners.columns.name),
+						},
+					}),
+				})
+		).toThrow(RangeError);
+
+		expect(
+			() =>
+				new Locality({
+					dbName: 'invalid',
+					schema: defineSchema({
+						owners,
+						pets: {
+							id: column.int().pk(),
+							ownerId: column
+								.int()
+								.references(() => owners.columns.id, { onDelete: 'setNull' }),
+						},
+					}),
+				})
+		).toThrow("uses onDelete 'setNull', but the column is neither nullable nor optional");
+	});
+});
@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { column, defineSchema, gte } from '..';
+import type { ChangeSet } from '..';
+import { seedDB } from './fixtures';
+
+const schema = defineSchema({
+	tasks: {
+		id: column.int().pk().auto(),
+		status: column.text().index(),
+		rank: column.int().index(),
+		tags: column.array<string>().index({ multiEntry: true }),
+	},
+});
+
+async function seed() {
+	const db = await seedDB(
+		{ dbName: 'cursor-writes', schema },
+		{
+			tasks: [
+				{ status: 'open', rank: 1, tags: ['a', 'b'] },
+				{ status: 'done', rank: 2, tags: ['b', 'c'] },
+				{ status: 'open', rank: 3, tags: ['c'] },
+			],
+		}
+	);
+
+	const changes: ChangeSet[] = [];
+
+	db.on('change', (event) => void changes.push(event.changes));
+
+	return { db, changes };
+}
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('delete fast path', () => {
+	it('clears the table for an unfiltered delete', async () => {
+		const { db, changes } = await seed();
+		const getAllKeys = vi.spyOn(IDBObjectStore.prototype, 'getAllKeys');
+
+		expect(await db.delete('tasks').run()).toBe(3);
+		await vi.waitFor(() => expect(changes).toHaveLength(1));
+
+		expect(getAllKeys).not.toHaveBeenCalled();
+		expect(changes[0]).toEqual([{ table: 'tasks', op: 'clear', keys: null }]);
+		expect(await db.from('tasks').count()).toBe(0);
+	});
+
+	it('deletes index keys and ranges without reading rows', async () => {
+		const { db, changes } = await seed();
+		const openCursor = vi.spyOn(IDBIndex.prototype, 'openCursor');
+
+		expect(await db.delete('tasks').where('status', 'open').run()).toBe(2);
+		expect(await db.delete('tasks').where('tags', IDBKeyRange.bound('a', 'c')).run()).toBe(
+			1
+		);
+		await vi.waitFor(() => expect(changes).toHaveLength(2));
+
+		expect(openCursor).not.toHaveBeenCalled();
+		expect(changes).toEqual([
+			[{ table: 'tasks', op: 'delete', keys: [1, 3] }],
+			[{ table: 'tasks', op: 'delete', keys: [2] }],
+		]);
+	});
+});
+
+describe('cursor updates', () => {
+	it('updates each row once when the update moves it ahead in the index', async () => {
+		const { db } = await seed();
+
+		const updated = await db
+			.update('tasks')
+			.set((task) => ({ rank: task.rank + 10 }))
+			.where(gte('rank', 1))
+			.run();
+
+		expect(updated).toBe(3);
+		expect((await db.from('tasks').findAll()).map((task) => task.rank)).toEqual([
+			11, 12, 13,
+		]);
+	});
+
+	it('updates each row once through a multi-entry index range', async () => {
+		const { db } = await seed();
+
+		const updated = await db
+			.update('tasks')
+			.increment('rank', 1)
+			.where('tags', IDBKeyRange.bound('a', 'c'))
+			.run();
+
+		expect(updated).toBe(3);
+		expect((await db.from('tasks').findAll()).map((task) => task.rank)).toEqual([2, 3, 4]);
+	});
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { column, defineSchema, getTimestamp, isTimestamp, isUUID, uuidV4 } from '..';
+import { openDB } from './fixtures';
+
+describe('generated defaults', () => {
+	it('calls generators on each insert with the row prepared so far', async () => {
+		const generator = vi.fn((row: Readonly<Record<string, unknown>>) =>
+			String(row.title).toLowerCase().replace(/\s+/g, '-')
+		);
+
+		const schema = defineSchema({
+			posts: {
+				id: column
+					.text()
+					.pk()
+					.$defaultFn(() => uuidV4()),
+				title: column.text(),
+				views: column.int().default(() => 0),
+				slug: column.text().$defaultFn(generator),
+				createdAt: column.timestamp().default(() => getTimestamp()),
+			},
+		});
+
+		const db = openDB({ dbName: 'defaults', schema });
+
+		const [first, second] = await db
+			.insert('posts')
+			.values([{ title: 'Hello World' }, { title: 'Second Post', slug: 'custom' }])
+			.run();
+
+		expect(isUUID(first.id)).toBe(true);
+		expect(first.id).not.toBe(second.id);
+		expect(first.slug).toBe('hello-world');
+		expect(second.slug).toBe('custom');
+		expect(isTimestamp(first.createdAt)).toBe(true);
+		expect(generator).toHaveBeenCalledTimes(1);
+		expect(generator).toHaveBeenCalledWith(
+			expect.objectContaining({ id: first.id, title: 'Hello World', views: 0 })
+		);
+	});
+});
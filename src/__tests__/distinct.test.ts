@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { column, defineSchema } from '..';
+import { seedDB } from './fixtures';
+
+const schema = defineSchema({
+	posts: {
+		id: column.int().pk().auto(),
+		userId: column.int().index(),
+		category: column.text().nullable().default(null),
+		rank: column.int(),
+	},
+});
+
+const seed = () =>
+	seedDB(
+		{ dbName: 'distinct', schema },
+		{
+			posts: [
+				{ userId: 2, category: 'b', rank: 3 },
+				{ userId: 1, category: 'a', rank: 5 },
+				{ userId: 2, rank: 9 },
+				{ userId: 3, category: 'a', rank: 1 },
+				{ userId: 1, category: 'c', rank: 7 },
+			],
+		}
+	);
+
+const ids = (rows: Array<{ id: number }>) => rows.map((row) => row.id);
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('distinct()', () => {
+	it('walks an index with unique key cursors', async () => {
+		const db = await seed();
+		const openKeyCursor = vi.spyOn(IDBIndex.prototype, 'openKeyCursor');
+		const getAll = vi.spyOn(IDBObjectStore.prototype, 'getAll');
+
+		expect(await db.from('posts').distinct('userId')).toEqual([1, 2, 3]);
+		expect(await db.from('posts').sortByIndex('userId', 'desc').distinct('userId')).toEqual(
+			[3, 2, 1]
+		);
+		expect(await db.from('posts').offset(1).limit(1).distinct('userId')).toEqual([2]);
+
+		expect(openKeyCursor.mock.calls.map(([, direction]) => direction)).toEqual([
+			'nextunique',
+			'prevunique',
+			'nextunique',
+		]);
+		expect(getAll).not.toHaveBeenCalled();
+	});
+
+	it('reads rows for non-indexed columns and in-memory filters', async () => {
+		const db = await seed();
+		const openKeyCursor = vi.spyOn(IDBIndex.prototype, 'openKeyCursor');
+
+		expect(await db.from('posts').distinct('category')).toEqual(['a', 'b', 'c']);
+		expect(await db.from('posts').orderBy('category', 'desc').distinct('category')).toEqual(
+			['c', 'b', 'a']
+		);
+		expect(
+			await db
+				.from('posts')
+				.where((post) => post.rank > 4)
+				.distinct('userId')
+		).toEqual([1, 2]);
+		expect(openKeyCursor).not.toHaveBeenCalled();
+	});
+});
+
+describe('distinctBy()', () => {
+	it('reads the row with the lowest primary key per value in either direction', async () => {
+		const db = await seed();
+		const openCursor = vi.spyOn(IDBIndex.prototype, 'openCursor');
+
+		expect(ids(await db.from('posts').distinctBy('userId'))).toEqual([2, 1, 4]);
+		expect(
+			ids(await db.from('posts').sortByIndex('userId', 'desc').distinctBy('userId'))
+		).toEqual([4, 1, 2]);
+
+		expect(openCursor.mock.calls.map(([, direction]) => direction)).toEqual([
+			'nextunique',
+			'prevunique',
+		]);
+	});
+
+	it('keeps the first row in the order of another field', async () => {
+		const db = await seed();
+
+		const latest = await db.from('posts').orderBy('rank', 'desc').distinctBy('userId');
+
+		expect(ids(latest)).toEqual([3, 5, 4]);
+	});
+
+	it('projects the selected fields', async () => {
+		const db = await seed();
+
+		expect(
+			await db.from('posts').select({ id: true }).limit(2).distinctBy('userId')
+		).toEqual([{ id: 2 }, { id: 1 }]);
+	});
+});
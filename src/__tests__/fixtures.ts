@@ -0,0 +1,59 @@
+import { Locality } from '..';
+import type {
+	InferInsertType,
+	LocalityConfig,
+	RelationsDefinition,
+	SchemaDefinition,
+} from '..';
+
+/** Rows to insert per table, in insertion order */
+export type SeedData<S extends SchemaDefinition> = {
+	[K in keyof S]?: InferInsertType<S[K]>[];
+};
+
+const opened = new Set<Locality<string, number, any, any, any>>();
+
+/** Open a database that is closed after the current test */
+export function openDB<
+	DB extends string,
+	V extends number = 1,
+	S extends SchemaDefinition = SchemaDefinition,
+	R extends RelationsDefinition<S> = {},
+>(config: LocalityConfig<DB, V, S, R>) {
+	const db = new Locality<DB, V, S, keyof S & string, R>(config);
+
+	opened.add(db);
+
+	return db;
+}
+
+/** Open a database (closed after the current test) and insert the rows of each table in order */
+export async function seedDB<
+	DB extends string,
+	V extends number = 1,
+	S extends SchemaDefinition = SchemaDefinition,
+	R extends RelationsDefinition<S> = {},
+>(config: LocalityConfig<DB, V, S, R>, data: SeedData<S>) {
+	const db = openDB(config);
+
+	for (const [table, rows] of Object.entries(data)) {
+		if (rows) await db.seed(table, rows);
+	}
+
+	return db;
+}
+
+/** Close every database opened by the current test, including ones whose upgrade failed */
+export async function closeDBs(): Promise<void> {
+	for (const db of opened) {
+		await db.ready().then(
+			() => db.close(),
+			() => {}
+		);
+	}
+
+	opened.clear();
+}
+
+/** Let pending requests, transactions and notifications settle */
+export const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
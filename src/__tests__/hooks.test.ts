@@ -0,0 +1,190 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { column, defineSchema, table } from '..';
+import type { HookContext } from '..';
+import { openDB, seedDB } from './fixtures';
+
+const users = table(
+	'users',
+	{
+		id: column.int().pk().auto(),
+		email: column.text(),
+		logins: column.int().default(0),
+	},
+	{
+		hooks: {
+			beforeInsert: (user) => ({ ...user, email: user.email.toLowerCase() }),
+			beforeUpdate: (user, current) => {
+				if (user.email !== current.email) throw new Error('Email cannot be changed.');
+			},
+		},
+	}
+);
+
+const audit = table('audit', {
+	id: column.int().pk().auto(),
+	action: column.text(),
+	userId: column.int(),
+});
+
+const schema = defineSchema({ users, audit });
+
+/** Write an audit entry per row through the hook's transaction */
+const record =
+	(action: string) =>
+	(rows: Array<{ id: number }>, { transaction }: HookContext) => {
+		const store = transaction.objectStore('audit');
+
+		for (const row of rows) store.add({ action, userId: row.id });
+	};
+
+const seed = () =>
+	seedDB(
+		{ dbName: 'hooks', schema },
+		{ users: [{ email: 'Ann@X.dev' }, { email: 'bob@x.dev' }] }
+	);
+
+const actions = async (db: Awaited<ReturnType<typeof seed>>) =>
+	(await db.from('audit').findAll()).map(({ action, userId }) => `${action}:${userId}`);
+
+describe('before-hooks', () => {
+	it('use the row returned by beforeInsert', async () => {
+		const db = await seed();
+
+		expect(await db.from('users').findAll()).toEqual([
+			{ id: 1, email: 'ann@x.dev', logins: 0 },
+			{ id: 2, email: 'bob@x.dev', logins: 0 },
+		]);
+	});
+
+	it('validate rows changed by hooks, on a copy of the given row', async () => {
+		const db = openDB({ dbName: 'hooks', schema });
+		const input = { email: 'CAT@X.DEV' };
+
+		db.hooks('users', {
+			beforeInsert: (user) => {
+				user.logins = 'many' as never;
+			},
+		});
+
+		await expect(db.insert('users').values(input).run()).rejects.toThrow(
+			"Invalid value for field 'logins' in table 'users'"
+		);
+		expect(input).toEqual({ email: 'CAT@X.DEV' });
+	});
+
+	it('pass the updated and current rows to beforeUpdate', async () => {
+		const db = await seed();
+		const beforeUpdate = vi.fn();
+
+		db.hooks('users', { beforeUpdate });
+
+		await db.update('users').increment('logins').wherePk(2).run();
+
+		expect(beforeUpdate).toHaveBeenCalledWith(
+			{ id: 2, email: 'bob@x.dev', logins: 1 },
+			{ id: 2, email: 'bob@x.dev', logins: 0 },
+			expect.objectContaining({ table: 'users' })
+		);
+	});
+});
+
+describe('after-hooks', () => {
+	it('receive the stored and deleted rows in the write transaction', async () => {
+		const db = await seed();
+
+		db.hooks('users', { afterInsert: record('insert'), afterDelete: record('delete') });
+
+		await db
+			.insert('users')
+			.values([{ email: 'cat@x.dev' }, { email: 'dan@x.dev' }])
+			.run();
+		await db.delete('users').where('id', IDBKeyRange.bound(2, 3)).run();
+
+		expect(await actions(db)).toEqual(['insert:3', 'insert:4', 'delete:2', 'delete:3']);
+	});
+
+	it('are removed by registering undefined', async () => {
+		const db = await seed();
+
+		db.hooks('users', { afterInsert: record('insert') });
+		db.hooks('users', { afterInsert: undefined, beforeInsert: undefined });
+
+		await db.insert('users').values({ email: 'CAT@x.dev' }).run();
+
+		expect(await actions(db)).toEqual([]);
+		expect(await db.from('users').findByPk(3)).toMatchObject({ email: 'CAT@x.dev' });
+	});
+});
+
+describe('rejecting hooks', () => {
+	it('roll back the whole insert, including writes of earlier hooks', async () => {
+		const db = await seed();
+
+		db.hooks('users', {
+			afterInsert: async (rows, context) => {
+				record('insert')(rows, context);
+				await Promise.reject(new Error('Audit failed.'));
+			},
+		});
+
+		await expect(
+			db
+				.insert('users')
+				.values([{ email: 'cat@x.dev' }, { email: 'dan@x.dev' }])
+				.run()
+		).rejects.toThrow('Audit failed.');
+
+		expect(await db.from('users').count()).toBe(2);
+		expect(await actions(db)).toEqual([]);
+	});
+
+	it('roll back every row of an update', async () => {
+		const db = await seed();
+
+		await expect(
+			db
+				.update('users')
+				.set((user) => ({
+					logins: 5,
+					email: user.id === 2 ? 'robert@x.dev' : user.email,
+				}))
+				.run()
+		).rejects.toThrow('Email cannot be changed.');
+
+		expect((await db.from('users').findAll()).map((user) => user.logins)).toEqual([0, 0]);
+	});
+
+	it('roll back a delete', async () => {
+		const db = await seed();
+
+		db.hooks('users', {
+			afterDelete: () => {
+				throw new Error('Deletes are disabled.');
+			},
+		});
+
+		await expect(db.delete('users').run()).rejects.toThrow('Deletes are disabled.');
+		expect(await db.from('users').count()).toBe(2);
+	});
+
+	it('roll back the whole transaction', async () => {
+		const db = await seed();
+
+		db.hooks('users', {
+			beforeInsert: (user) => {
+				if (user.email.endsWith('@spam.dev')) throw new Error('Spam.');
+			},
+		});
+
+		await expect(
+			db.transaction(['users', 'audit'], async (ctx) => {
+				await ctx.insert('audit').values({ action: 'manual', userId: 1 }).run();
+				await ctx.insert('users').values({ email: 'eve@spam.dev' }).run();
+			})
+		).rejects.toThrow('Spam.');
+
+		expect(await db.from('users').count()).toBe(2);
+		expect(await actions(db)).toEqual([]);
+	});
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+
+import { column, defineSchema, index, table } from '..';
+import { seedDB } from './fixtures';
+
+const orders = table(
+	'orders',
+	{
+		id: column.int().pk().auto(),
+		tenant: column.text(),
+		number: column.int(),
+		status: column.text().index(),
+	},
+	{ indexes: { tenantNumber: index(['tenant', 'number']) } }
+);
+
+const seed = () =>
+	seedDB(
+		{ dbName: 'indexes', schema: defineSchema({ orders }) },
+		{
+			orders: [
+				{ tenant: 'b', number: 1, status: 'open' },
+				{ tenant: 'a', number: 2, status: 'open' },
+				{ tenant: 'b', number: 0, status: 'closed' },
+				{ tenant: 'a', number: 1, status: 'open' },
+				{ tenant: 'c', number: 1, status: 'open' },
+			],
+		}
+	);
+
+describe('compound index sort', () => {
+	it('reads in compound key order with an index cursor', async () => {
+		const db = await seed();
+
+		const rows = await db.from('orders').sortByIndex('tenantNumber').findAll();
+
+		expect(rows.map((row) => row.id)).toEqual([4, 2, 3, 1, 5]);
+	});
+
+	it('sorts by the compound key in memory when another index is read', async () => {
+		const db = await seed();
+		const query = db
+			.from('orders')
+			.where('status', 'open')
+			.sortByIndex('tenantNumber', 'desc');
+
+		expect((await query.explain()).sort?.using).toBe('memory');
+		expect((await query.findAll()).map((row) => row.id)).toEqual([5, 1, 2, 4]);
+	});
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { between, column, defineSchema } from '..';
+import { seedDB, settle } from './fixtures';
+
+const schema = defineSchema({
+	todos: { id: column.int().pk().auto(), title: column.text() },
+});
+
+const seed = () =>
+	seedDB({ dbName: 'live', schema }, { todos: [{ title: 'a' }, { title: 'b' }] });
+
+describe('subscribe()', () => {
+	it('re-emits after committed writes', async () => {
+		const db = await seed();
+		const callback = vi.fn();
+
+		const unsubscribe = db.from('todos').subscribe(callback);
+
+		await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(1));
+		await db.insert('todos').values({ title: 'c' }).run();
+		await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(2));
+
+		expect(callback.mock.lastCall?.[0]).toHaveLength(3);
+
+		unsubscribe();
+	});
+
+	it('reports errors to onError and ignores them without it', async () => {
+		const db = await seed();
+		const failing = vi.fn(() => {
+			throw new Error('render failed');
+		});
+		const onError = vi.fn();
+
+		const unsubscribe = db.from('todos').subscribe(failing, onError);
+		const unhandled = db.from('todos').subscribe(failing);
+
+		await vi.waitFor(() => expect(onError).toHaveBeenCalledTimes(1));
+		await db.insert('todos').values({ title: 'c' }).run();
+		await vi.waitFor(() => expect(failing).toHaveBeenCalledTimes(4));
+		await settle();
+
+		expect(onError).toHaveBeenCalledTimes(2);
+		expect(onError).toHaveBeenCalledWith(new Error('render failed'));
+
+		unsubscribe();
+		unhandled();
+	});
+
+	it('skips writes outside the primary key range without planning again', async () => {
+		const db = await seed();
+		const callback = vi.fn();
+
+		const unsubscribe = db
+			.from('todos')
+			.where(between('id', 1, 2))
+			.subscribe(callback);
+
+		await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(1));
+
+		const transaction = vi.spyOn(IDBDatabase.prototype, 'transaction');
+
+		await db.insert('todos').values({ title: 'c' }).run();
+		await db
+			.delete('todos')
+			.where(between('id', 10, 20))
+			.run();
+		await settle();
+
+		expect(callback).toHaveBeenCalledTimes(1);
+		expect(transaction.mock.calls.filter(([, mode]) => mode !== 'readwrite')).toEqual([]);
+
+		await db.update('todos').set({ title: 'B' }).wherePk(2).run();
+		await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(2));
+
+		transaction.mockRestore();
+		unsubscribe();
+	});
+
+	it('ignores writes that changed no rows', async () => {
+		const db = await seed();
+		const callback = vi.fn();
+
+		const unsubscribe = db.from('todos').subscribe(callback);
+
+		await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(1));
+		await db
+			.delete('todos')
+			.where((todo) => todo.title === 'missing')
+			.run();
+		await settle();
+
+		expect(callback).toHaveBeenCalledTimes(1);
+
+		unsubscribe();
+	});
+});
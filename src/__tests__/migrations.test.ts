@@ -0,0 +1,131 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { column, defineSchema } from '..';
+import type { MigrationContext } from '..';
+import { openDB, seedDB } from './fixtures';
+
+const v1 = defineSchema({
+	people: { id: column.int().pk().auto(), name: column.text() },
+});
+
+const v3 = defineSchema({
+	users: {
+		id: column.int().pk().auto(),
+		first: column.text(),
+		last: column.text(),
+		role: column.text().index(),
+	},
+});
+
+async function seed() {
+	const db = await seedDB(
+		{ dbName: 'migrations', version: 1, schema: v1 },
+		{ people: [{ name: 'Ann Lee' }, { name: 'Bob' }] }
+	);
+
+	db.close();
+}
+
+describe('migrations', () => {
+	it('runs the steps after the old version in order', async () => {
+		await seed();
+
+		const steps: number[][] = [];
+		const track = ({ oldVersion, newVersion, version }: MigrationContext) =>
+			void steps.push([oldVersion, newVersion, version]);
+
+		const db = openDB({
+			dbName: 'migrations',
+			version: 3,
+			schema: v3,
+			migrations: {
+				1: track,
+				3: async (ctx) => {
+					track(ctx);
+					await ctx.update('users', (user) => ({ ...user, role: 'member' }));
+				},
+				2: async (ctx) => {
+					track(ctx);
+
+					for (const person of await ctx.getAll('people')) {
+						const [first, last = ''] = String(person.name).split(' ');
+
+						await ctx.put('users', { id: person.id, first, last });
+					}
+				},
+			},
+		});
+
+		await db.ready();
+
+		expect(steps).toEqual([
+			[1, 3, 2],
+			[1, 3, 3],
+		]);
+		expect(await db.from('users').findAll()).toEqual([
+			{ id: 1, first: 'Ann', last: 'Lee', role: 'member' },
+			{ id: 2, first: 'Bob', last: '', role: 'member' },
+		]);
+		expect(db.tableList).toEqual(['users']);
+	});
+
+	it('renames fields and deletes records returned as null', async () => {
+		await seed();
+
+		const db = openDB({
+			dbName: 'migrations',
+			version: 2,
+			schema: defineSchema({
+				people: { id: column.int().pk().auto(), fullName: column.text() },
+			}),
+			migrations: {
+				2: async (ctx) => {
+					await ctx.renameField('people', 'name', 'fullName');
+					await ctx.update('people', (person) =>
+						person.fullName === 'Bob' ? null : undefined
+					);
+				},
+			},
+		});
+
+		expect(await db.from('people').findAll()).toEqual([{ id: 1, fullName: 'Ann Lee' }]);
+	});
+
+	it('does not run for a new database', async () => {
+		const migration = vi.fn();
+		const db = openDB({
+			dbName: 'migrations',
+			version: 3,
+			schema: v3,
+			migrations: { 2: migration, 3: migration },
+		});
+
+		await db.ready();
+
+		expect(migration).not.toHaveBeenCalled();
+		expect(db.version).toBe(3);
+	});
+
+	it('aborts the upgrade when a step fails', async () => {
+		await seed();
+
+		const db = openDB({
+			dbName: 'migrations',
+			version: 2,
+			schema: v3,
+			migrations: {
+				2: async (ctx) => {
+					await ctx.clear('people');
+					throw new Error('bad data');
+				},
+			},
+		});
+
+		await expect(db.ready()).rejects.toThrow('Migration to version 2 failed: bad data');
+
+		const reopened = openDB({ dbName: 'migrations', schema: v1 });
+
+		expect(await reopened.from('people').count()).toBe(2);
+		expect(reopened.version).toBe(1);
+	});
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+
+import { column, defineSchema } from '..';
+import { seedDB } from './fixtures';
+
+const schema = defineSchema({
+	posts: {
+		id: column.int().pk().auto(),
+		tags: column.array<string>().index({ multiEntry: true }),
+	},
+});
+
+const range = IDBKeyRange.bound('a', 'z');
+
+const seed = () =>
+	seedDB(
+		{ dbName: 'multi-entry', schema },
+		{
+			posts: [
+				{ tags: ['x', 'y'] },
+				{ tags: ['y', 'z'] },
+				{ tags: ['x', 'x'] },
+				{ tags: ['q'] },
+			],
+		}
+	);
+
+describe('multi-entry index ranges', () => {
+	it('returns each row once from findAll()', async () => {
+		const db = await seed();
+
+		const rows = await db.from('posts').where('tags', range).findAll();
+
+		expect(rows.map((row) => row.id).sort()).toEqual([1, 2, 3, 4]);
+		expect(
+			await db.from('posts').where('tags', IDBKeyRange.bound('x', 'z')).findAll()
+		).toEqual([
+			{ id: 1, tags: ['x', 'y'] },
+			{ id: 3, tags: ['x', 'x'] },
+			{ id: 2, tags: ['y', 'z'] },
+		]);
+	});
+
+	it('counts each row once', async () => {
+		const db = await seed();
+
+		expect(await db.from('posts').where('tags', range).count()).toBe(4);
+		expect(await db.from('posts').where('tags', IDBKeyRange.bound('x', 'z')).count()).toBe(
+			3
+		);
+		expect(
+			await db
+				.from('posts')
+				.where('tags', range)
+				.where((row) => row.id > 1)
+				.count()
+		).toBe(3);
+	});
+
+	it('pages through each row once', async () => {
+		const db = await seed();
+		const query = () => db.from('posts').where('tags', range).sortByIndex('tags');
+
+		const first = await query().page({ limit: 3 });
+		const second = await query().page({ limit: 3, cursor: first.nextCursor! });
+
+		// Row 1 is also indexed under 'y', after the cursor: it is not read again
+		expect(first.items.map((row) => row.id)).toEqual([4, 1, 3]);
+		expect(second.items.map((row) => row.id)).toEqual([2]);
+		expect(second.nextCursor).toBeUndefined();
+	});
+
+	it('streams each row once', async () => {
+		const db = await seed();
+		const ids: number[] = [];
+
+		await db
+			.from('posts')
+			.where('tags', range)
+			.sortByIndex('tags', 'desc')
+			.stream((row) => {
+				ids.push(row.id);
+			});
+
+		expect(ids).toEqual([2, 1, 3, 4]);
+	});
+
+	it('returns each row once from findByIndex()', async () => {
+		const db = await seed();
+
+		const rows = await db.from('posts').findByIndex('tags', range);
+		const sorted = await db
+			.from('posts')
+			.sortByIndex('tags')
+			.offset(1)
+			.findByIndex('tags', range);
+
+		expect(rows.map((row) => row.id).sort()).toEqual([1, 2, 3, 4]);
+		expect(sorted.map((row) => row.id)).toEqual([1, 3, 2]);
+	});
+});
@@ -0,0 +1,142 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { column, defineSchema, isNull, Locality, not } from '..';
+import { openDB, seedDB } from './fixtures';
+
+const checkBio = vi.fn((value: string) => (value.length > 3 ? 'Too long' : null));
+
+const schema = defineSchema({
+	users: {
+		id: column.int().pk().auto(),
+		name: column.text(),
+		bio: column.text().nullable().validate(checkBio),
+		age: column.int().nullable().optional().index(),
+		nickname: column.text().nullable().default(null).unique(),
+	},
+});
+
+describe('nullable validation', () => {
+	it('accepts null on nullable columns only', async () => {
+		const db = openDB({ dbName: 'nullable', schema });
+
+		checkBio.mockClear();
+
+		const user = await db
+			.insert('users')
+			.values({ name: 'Ann', bio: null, age: null })
+			.run();
+
+		expect(user).toEqual({ id: 1, name: 'Ann', bio: null, age: null, nickname: null });
+		expect(checkBio).not.toHaveBeenCalled();
+
+		await expect(
+			db
+				.insert('users')
+				.values({ name: null as never, bio: 'x' })
+				.run()
+		).rejects.toThrow("Invalid value for field 'name' in table 'users'");
+		await expect(
+			db
+				.update('users')
+				.set({ name: null as never })
+				.run()
+		).rejects.toThrow(TypeError);
+		expect(await db.from('users').findByPk(1)).toMatchObject({ name: 'Ann' });
+	});
+
+	it('still requires nullable columns without default or optional()', async () => {
+		const db = openDB({ dbName: 'nullable', schema });
+
+		await expect(
+			db
+				.insert('users')
+				.values({ name: 'Ann' } as never)
+				.run()
+		).rejects.toThrow(new RangeError("Required field 'bio' is missing in table 'users'!"));
+	});
+
+	it('sets nullable columns back to null and validates other values', async () => {
+		const db = await seedDB(
+			{ dbName: 'nullable', schema },
+			{ users: [{ name: 'Ann', bio: 'hi', age: 30, nickname: 'A' }] }
+		);
+
+		await db.update('users').set({ bio: null, age: null, nickname: null }).run();
+
+		expect(await db.from('users').findByPk(1)).toEqual({
+			id: 1,
+			name: 'Ann',
+			bio: null,
+			age: null,
+			nickname: null,
+		});
+		await expect(db.update('users').set({ bio: 'hello' }).run()).rejects.toThrow(
+			'Too long'
+		);
+	});
+
+	it('rejects nullable primary keys', () => {
+		expect(
+			() =>
+				new Locality({
+					dbName: 'nullable',
+					schema: defineSchema({ items: { id: column.int().pk().nullable() } }),
+				})
+		).toThrow(new RangeError(`Primary key 'id' of table "items" cannot be nullable.`));
+	});
+});
+
+describe('indexes on nullable columns', () => {
+	const seed = () =>
+		seedDB(
+			{ dbName: 'nullable', schema },
+			{
+				users: [
+					{ name: 'Ann', bio: null, age: 30 },
+					{ name: 'Bob', bio: null },
+					{ name: 'Cat', bio: null, age: null },
+					{ name: 'Dan', bio: null, age: 20, nickname: 'D' },
+				],
+			}
+		);
+
+	it('allows any number of null values in unique indexes', async () => {
+		const db = await seed();
+
+		await db.insert('users').values({ name: 'Eve', bio: null, nickname: null }).run();
+
+		await expect(
+			db.insert('users').values({ name: 'Fay', bio: null, nickname: 'D' }).run()
+		).rejects.toThrow();
+		expect(await db.from('users').where(isNull('nickname')).count()).toBe(4);
+	});
+
+	it('leaves null values out of index reads', async () => {
+		const db = await seed();
+
+		const names = (rows: Array<{ name: string }>) => rows.map((row) => row.name);
+
+		expect(names(await db.from('users').sortByIndex('age').findAll())).toEqual([
+			'Dan',
+			'Ann',
+		]);
+		expect(await db.from('users').where('age', IDBKeyRange.lowerBound(0)).count()).toBe(2);
+		expect(await db.from('users').findByIndex('age', 20)).toHaveLength(1);
+		expect(await db.from('users').distinct('age')).toEqual([20, 30]);
+	});
+
+	it('finds null and missing values with isNull()', async () => {
+		const db = await seed();
+
+		const query = db.from('users').where(isNull('age'));
+
+		expect(await query.explain()).toMatchObject({ access: 'fullScan' });
+		expect((await query.findAll()).map((user) => user.name)).toEqual(['Bob', 'Cat']);
+		expect(
+			await db
+				.from('users')
+				.where(not(isNull('age')))
+				.count()
+		).toBe(2);
+	});
+});
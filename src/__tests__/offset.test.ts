@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { column, defineSchema, gte } from '..';
+import { seedDB } from './fixtures';
+
+const schema = defineSchema({
+	users: {
+		id: column.int().pk().auto(),
+		name: column.text().index(),
+		age: column.int(),
+		tags: column.array<string>().index({ multiEntry: true }),
+	},
+});
+
+const names = ['Gus', 'Ann', 'Eve', 'Bob', 'Fay', 'Cat', 'Dan'];
+
+const seed = () =>
+	seedDB(
+		{ dbName: 'offset', schema },
+		{
+			users: names.map((name, i) => ({ name, age: 20 + i, tags: ['x', name] })),
+		}
+	);
+
+const pluck = (rows: Array<{ name: string }>) => rows.map((row) => row.name);
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('offset() on index cursors', () => {
+	it('jumps over the offset with one advance() call without a filter', async () => {
+		const db = await seed();
+		const advance = vi.spyOn(IDBCursor.prototype, 'advance');
+
+		const asc = await db.from('users').sortByIndex('name').offset(2).limit(3).findAll();
+		const desc = await db.from('users').sortByIndex('name', 'desc').offset(5).findAll();
+
+		expect(pluck(asc)).toEqual(['Cat', 'Dan', 'Eve']);
+		expect(pluck(desc)).toEqual(['Bob', 'Ann']);
+		expect(advance.mock.calls).toEqual([[2], [5]]);
+	});
+
+	it('streams from the offset with advance()', async () => {
+		const db = await seed();
+		const advance = vi.spyOn(IDBCursor.prototype, 'advance');
+		const streamed: string[] = [];
+
+		await db
+			.from('users')
+			.sortByIndex('name')
+			.offset(4)
+			.stream((user) => void streamed.push(user.name));
+
+		expect(streamed).toEqual(['Eve', 'Fay', 'Gus']);
+		expect(advance.mock.calls).toEqual([[4]]);
+	});
+
+	it('skips matching rows one by one with an in-memory filter', async () => {
+		const db = await seed();
+		const advance = vi.spyOn(IDBCursor.prototype, 'advance');
+
+		const rows = await db
+			.from('users')
+			.where((user) => user.age % 2 === 0)
+			.sortByIndex('name')
+			.offset(1)
+			.limit(2)
+			.findAll();
+
+		// Even ages by name: Dan, Eve, Fay, Gus
+		expect(pluck(rows)).toEqual(['Eve', 'Fay']);
+		expect(advance).not.toHaveBeenCalled();
+	});
+
+	it('counts each row of a multi-entry index once', async () => {
+		const db = await seed();
+		const advance = vi.spyOn(IDBCursor.prototype, 'advance');
+
+		const rows = await db
+			.from('users')
+			.where('tags', IDBKeyRange.bound('A', 'z'))
+			.sortByIndex('tags')
+			.offset(5)
+			.findAll();
+
+		expect(pluck(rows)).toEqual(['Fay', 'Gus']);
+		expect(advance).not.toHaveBeenCalled();
+	});
+
+	it('resolves to no rows past the end', async () => {
+		const db = await seed();
+
+		expect(await db.from('users').sortByIndex('name').offset(7).findAll()).toEqual([]);
+		expect(await db.from('users').offset(10).findAll()).toEqual([]);
+	});
+});
+
+describe('offset() in memory', () => {
+	it('applies after filtering and sorting, before limit', async () => {
+		const db = await seed();
+
+		const rows = await db
+			.from('users')
+			.where(gte('age', 22))
+			.orderBy('name', 'desc')
+			.offset(1)
+			.limit(2)
+			.findAll();
+
+		expect(pluck(rows)).toEqual(['Eve', 'Dan']);
+	});
+
+	it('rejects negative and fractional counts', async () => {
+		const db = await seed();
+
+		expect(() => db.from('users').offset(-1)).toThrow(
+			new RangeError('offset() count must be a non-negative integer.')
+		);
+		expect(() => db.from('users').offset(1.5)).toThrow(RangeError);
+	});
+});
+
+describe('count()', () => {
+	it('ignores limit and offset', async () => {
+		const db = await seed();
+
+		expect(await db.from('users').sortByIndex('name').offset(3).limit(2).count()).toBe(7);
+		expect(await db.from('users').where(gte('age', 23)).offset(2).limit(1).count()).toBe(4);
+	});
+});
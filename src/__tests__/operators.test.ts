@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+
+import { column, defineSchema, eq, ilike, inArray, like, ne, not } from '..';
+import { seedDB } from './fixtures';
+
+const schema = defineSchema({
+	users: {
+		id: column.int().pk().auto(),
+		name: column.text().index(),
+		role: column.text(),
+		tags: column.array<string>().index({ multiEntry: true }),
+	},
+});
+
+const seed = () =>
+	seedDB(
+		{ dbName: 'operators', schema },
+		{
+			users: [
+				{ name: 'Alice', role: 'admin', tags: ['x', 'y'] },
+				{ name: 'alfred', role: 'member', tags: ['y'] },
+				{ name: 'ALBERT', role: 'member', tags: [] },
+				{ name: 'Bob_1', role: 'guest', tags: ['x', 'x'] },
+				{ name: 'Bob%2', role: 'guest', tags: ['z'] },
+			],
+		}
+	);
+
+const ids = (rows: Array<{ id: number }>) => rows.map((row) => row.id);
+
+describe('like()', () => {
+	it('matches case-sensitively and narrows the index to the literal prefix', async () => {
+		const db = await seed();
+
+		const query = db.from('users').where(like('name', 'Al%'));
+
+		expect(await query.explain()).toMatchObject({
+			access: 'index',
+			index: 'name',
+			residual: ['name LIKE "Al%"'],
+		});
+		expect(ids(await query.findAll())).toEqual([1]);
+		expect(ids(await db.from('users').where(like('name', '%e_')).findAll())).toEqual([2]);
+	});
+
+	it('treats _ as one character and % as any sequence', async () => {
+		const db = await seed();
+
+		// Prefixed patterns read the name index, where 'Bob%2' sorts before 'Bob_1'
+		expect(ids(await db.from('users').where(like('name', 'Bob__')).findAll())).toEqual([
+			5, 4,
+		]);
+		expect(ids(await db.from('users').where(like('role', '_____')).findAll())).toEqual([
+			1, 4, 5,
+		]);
+		expect(ids(await db.from('users').where(like('name', 'Bob%')).findAll())).toEqual([
+			5, 4,
+		]);
+	});
+});
+
+describe('ilike()', () => {
+	it('matches regardless of case and never uses an index', async () => {
+		const db = await seed();
+
+		const query = db.from('users').where(ilike('name', 'al%'));
+
+		expect(await query.explain()).toMatchObject({
+			access: 'fullScan',
+			residual: ['name ILIKE "al%"'],
+		});
+		expect(ids(await query.findAll())).toEqual([1, 2, 3]);
+		expect(ids(await db.from('users').where(ilike('name', '%B%')).findAll())).toEqual([
+			3, 4, 5,
+		]);
+		expect(
+			ids(
+				await db
+					.from('users')
+					.where(not(ilike('name', 'AL%')))
+					.findAll()
+			)
+		).toEqual([4, 5]);
+	});
+});
+
+describe('inArray()', () => {
+	it('matches any listed value and nothing for an empty list', async () => {
+		const db = await seed();
+
+		expect(
+			ids(
+				await db
+					.from('users')
+					.where(inArray('role', ['guest', 'admin']))
+					.findAll()
+			)
+		).toEqual([1, 4, 5]);
+		expect(
+			await db
+				.from('users')
+				.where(inArray('name', [] as string[]))
+				.findAll()
+		).toEqual([]);
+	});
+
+	it('matches multi-entry fields if any element is listed', async () => {
+		const db = await seed();
+
+		const query = db.from('users').where(inArray('tags', ['y', 'z']));
+
+		expect(await query.explain()).toMatchObject({ access: 'fullScan' });
+		expect(ids(await query.findAll())).toEqual([1, 2, 5]);
+	});
+});
+
+describe('eq() and ne() on multi-entry fields', () => {
+	it('matches rows containing the value once with eq()', async () => {
+		const db = await seed();
+
+		const query = db.from('users').where(eq('tags', 'x'));
+
+		expect(await query.explain()).toMatchObject({
+			access: 'index',
+			index: 'tags',
+			range: '= "x"',
+			residual: [],
+		});
+		expect(ids(await query.findAll())).toEqual([1, 4]);
+	});
+
+	it('matches rows containing no element equal to the value with ne()', async () => {
+		const db = await seed();
+
+		expect(ids(await db.from('users').where(ne('tags', 'x')).findAll())).toEqual([2, 3, 5]);
+		expect(ids(await db.from('users').where(ne('role', 'guest')).findAll())).toEqual([
+			1, 2, 3,
+		]);
+	});
+});
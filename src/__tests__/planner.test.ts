@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+
+import { and, between, column, defineSchema, eq, gt, gte, inArray, like, lt, or } from '..';
+import { seedDB } from './fixtures';
+
+const schema = defineSchema({
+	posts: {
+		id: column.int().pk().auto(),
+		userId: column.int().index(),
+		slug: column.text().unique(),
+		likes: column.int().index(),
+		title: column.text(),
+	},
+});
+
+const seed = () =>
+	seedDB(
+		{ dbName: 'planner', schema },
+		{
+			posts: Array.from({ length: 12 }, (_, i) => ({
+				userId: i % 3,
+				slug: `post-${i}`,
+				likes: i * 2,
+				title: i % 2 ? `Tip ${i}` : `News ${i}`,
+			})),
+		}
+	);
+
+describe('access path', () => {
+	it('prefers equality over ranges and primary key over indexes', async () => {
+		const db = await seed();
+
+		expect(
+			await db.from('posts').where(eq('userId', 1)).where(eq('slug', 'post-4')).explain()
+		).toMatchObject({ access: 'uniqueIndex', index: 'slug', residual: ['userId = 1'] });
+
+		expect(
+			await db.from('posts').where(gt('likes', 5)).where(eq('id', 3)).explain()
+		).toMatchObject({
+			access: 'primaryKey',
+			index: 'id',
+			range: '= 3',
+			residual: ['likes > 5'],
+		});
+
+		expect(
+			await db.from('posts').where(eq('userId', 2)).where(gt('likes', 1)).explain()
+		).toMatchObject({
+			access: 'index',
+			index: 'userId',
+			range: '= 2',
+			residual: ['likes > 1'],
+		});
+	});
+
+	it('merges the bounds of a field into one key range', async () => {
+		const db = await seed();
+
+		const query = db
+			.from('posts')
+			.where(and(gte('likes', 6), lt('likes', 12), like('title', 'T%')));
+
+		expect(await query.explain()).toMatchObject({
+			access: 'index',
+			index: 'likes',
+			range: '>= 6 AND < 12',
+			residual: ['title LIKE "T%"'],
+		});
+		expect((await query.findAll()).map((post) => post.id)).toEqual([4, 6]);
+	});
+
+	it('narrows inArray() to its bounds and keeps the membership check', async () => {
+		const db = await seed();
+
+		const query = db.from('posts').where(inArray('likes', [2, 8]));
+
+		expect(await query.explain()).toMatchObject({
+			access: 'index',
+			index: 'likes',
+			range: '>= 2 AND <= 8',
+			residual: ['likes IN (2, 8)'],
+		});
+		expect((await query.findAll()).map((post) => post.id)).toEqual([2, 5]);
+	});
+
+	it('scans the table for or() and contradicting bounds', async () => {
+		const db = await seed();
+
+		const either = db.from('posts').where(or(eq('userId', 1), eq('slug', 'post-0')));
+		const none = db.from('posts').where(gt('likes', 10)).where(lt('likes', 5));
+
+		expect(await either.explain()).toMatchObject({ access: 'fullScan' });
+		expect((await either.findAll()).map((post) => post.id)).toEqual([1, 2, 5, 8, 11]);
+
+		expect(await none.explain()).toMatchObject({
+			access: 'fullScan',
+			residual: ['likes > 10', 'likes < 5'],
+		});
+		expect(await none.findAll()).toEqual([]);
+	});
+
+	it('keeps predicates as residual filters', async () => {
+		const db = await seed();
+
+		const query = db
+			.from('posts')
+			.where(between('id', 2, 6))
+			.where((post) => post.userId === 0);
+
+		expect(await query.explain()).toMatchObject({
+			access: 'primaryKey',
+			range: '>= 2 AND <= 6',
+			residual: ['predicate'],
+		});
+		expect((await query.findAll()).map((post) => post.id)).toEqual([4]);
+	});
+
+	it('uses index clauses and rejects unknown indexes', async () => {
+		const db = await seed();
+
+		expect(
+			await db.from('posts').where('userId', IDBKeyRange.lowerBound(2)).explain()
+		).toMatchObject({ access: 'index', index: 'userId', range: '>= 2', residual: [] });
+
+		await expect(
+			db
+				.from('posts')
+				.where('nope' as 'userId', 1)
+				.findAll()
+		).rejects.toThrow(RangeError);
+	});
+});
+
+describe('sorting', () => {
+	it('reads in index order when the sort index is the access path', async () => {
+		const db = await seed();
+
+		const query = db
+			.from('posts')
+			.where(gt('likes', 14))
+			.sortByIndex('likes', 'desc')
+			.limit(2);
+
+		expect(await query.explain()).toMatchObject({
+			access: 'index',
+			index: 'likes',
+			sort: { key: 'likes', direction: 'desc', using: 'index' },
+			limit: 2,
+		});
+		expect((await query.findAll()).map((post) => post.likes)).toEqual([22, 20]);
+	});
+
+	it('sorts in memory when a narrower source is chosen', async () => {
+		const db = await seed();
+
+		const query = db.from('posts').where(eq('userId', 2)).sortByIndex('likes', 'desc');
+
+		expect(await query.explain()).toMatchObject({
+			access: 'index',
+			index: 'userId',
+			sort: { key: 'likes', direction: 'desc', using: 'memory' },
+		});
+		expect((await query.findAll()).map((post) => post.likes)).toEqual([22, 16, 10, 4]);
+	});
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+
+import { column, defineSchema, Locality, table } from '..';
+import { openDB } from './fixtures';
+
+const userRoles = table(
+	'user_roles',
+	{
+		userId: column.int().pk(),
+		roleId: column.text().pk(),
+		grantedAt: column.int(),
+	},
+	{ primaryKey: ['roleId', 'userId'] }
+);
+
+describe('composite primary keys', () => {
+	it('uses the primaryKey order as the key path', async () => {
+		const db = openDB({ dbName: 'pk', schema: defineSchema({ userRoles }) });
+
+		await db
+			.insert('userRoles')
+			.values({ userId: 1, roleId: 'admin', grantedAt: 10 })
+			.run();
+		await db
+			.insert('userRoles')
+			.values({ userId: 2, roleId: 'admin', grantedAt: 20 })
+			.run();
+
+		const row = await db.from('userRoles').findByPk(['admin', 2]);
+
+		expect(row).toEqual({ userId: 2, roleId: 'admin', grantedAt: 20 });
+		expect(await db.from('userRoles').findByPk(['editor', 1])).toBeNull();
+
+		const updated = await db
+			.update('userRoles')
+			.set({ grantedAt: 30 })
+			.wherePk(['admin', 1])
+			.run();
+
+		expect(updated).toBe(1);
+		expect(await db.delete('userRoles').wherePk(['admin', 2]).run()).toBe(1);
+		expect(await db.from('userRoles').findAll()).toEqual([
+			{ userId: 1, roleId: 'admin', grantedAt: 30 },
+		]);
+	});
+
+	it('requires a primaryKey order listing exactly the primary key columns', () => {
+		const unordered = defineSchema({
+			pairs: { a: column.int().pk(), b: column.int().pk() },
+		});
+		const partial = defineSchema({
+			pairs: table(
+				'pairs',
+				{ a: column.int().pk(), b: column.int().pk() },
+				{ primaryKey: ['a'] as never }
+			),
+		});
+
+		expect(() => new Locality({ dbName: 'pk', schema: unordered })).toThrow(RangeError);
+		expect(() => new Locality({ dbName: 'pk', schema: partial })).toThrow(
+			"The primaryKey option of table \"pairs\" must list its primary key columns in key order: 'a', 'b'."
+		);
+	});
+});
@@ -0,0 +1,280 @@
+import { afterEach, describe, expect, expectTypeOf, it, vi } from 'vitest';
+
+import { column, defineSchema, relations, table } from '..';
+import { seedDB } from './fixtures';
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('key identity', () => {
+	const bytes = (...values: number[]) => new Uint8Array(values).buffer;
+
+	const owners = table('owners', {
+		id: column.custom<ArrayBuffer>().pk(),
+		name: column.text(),
+	});
+
+	const files = table('files', {
+		id: column.int().pk().auto(),
+		ownerId: column
+			.custom<ArrayBuffer>()
+			.index()
+			.references(() => owners.columns.id),
+		slot: column.array<Date | string>().index(),
+	});
+
+	const slots = table('slots', {
+		key: column.array<Date | string>().pk(),
+		label: column.text(),
+	});
+
+	const schema = defineSchema({ owners, files, slots });
+
+	const seed = () =>
+		seedDB(
+			{
+				dbName: 'key-identity',
+				schema,
+				relations: relations(schema, {
+					owners: ({ many }) => ({
+						files: many('files', { field: 'id', references: 'ownerId' }),
+					}),
+					files: ({ one }) => ({
+						slot: one('slots', { field: 'slot', references: 'key' }),
+					}),
+				}),
+			},
+			{
+				slots: [
+					{ key: [new Date(0)], label: 'date' },
+					{ key: [new Date(0).toISOString()], label: 'string' },
+				],
+				owners: [
+					{ id: bytes(1), name: 'one' },
+					{ id: bytes(2), name: 'two' },
+				],
+				files: [
+					{ ownerId: bytes(1), slot: [new Date(0)] },
+					{ ownerId: bytes(2), slot: [new Date(0).toISOString()] },
+				],
+			}
+		);
+
+	it('keeps binary keys apart when loading relations', async () => {
+		const db = await seed();
+
+		const owners = await db.from('owners').with({ files: true }).findAll();
+
+		expect(owners.map((owner) => [owner.name, owner.files.map((file) => file.id)])).toEqual(
+			[
+				['one', [1]],
+				['two', [2]],
+			]
+		);
+	});
+
+	it('checks binary foreign keys by their bytes', async () => {
+		const db = await seed();
+
+		await expect(
+			db
+				.insert('files')
+				.values([
+					{ ownerId: bytes(3), slot: ['x'] },
+					{ ownerId: bytes(1), slot: ['x'] },
+				])
+				.run()
+		).rejects.toThrow('no row in "owners" has \'id\' =');
+	});
+
+	it('keeps array keys with dates and strings apart', async () => {
+		const db = await seed();
+
+		const files = await db.from('files').with({ slot: true }).findAll();
+
+		expect(files.map((file) => file.slot?.label)).toEqual(['date', 'string']);
+	});
+});
+
+describe('eager loading', () => {
+	const schema = defineSchema({
+		users: { id: column.int().pk().auto(), name: column.text() },
+		profiles: {
+			id: column.int().pk().auto(),
+			userId: column.int().unique(),
+			bio: column.text(),
+		},
+		posts: {
+			id: column.int().pk().auto(),
+			userId: column.int().index(),
+			title: column.text(),
+		},
+		comments: {
+			id: column.int().pk().auto(),
+			postId: column.int().index(),
+			body: column.text(),
+		},
+		roles: { id: column.int().pk(), name: column.text() },
+		user_roles: {
+			id: column.int().pk().auto(),
+			userId: column.int().index(),
+			roleId: column.int().index(),
+		},
+	});
+
+	const seed = () =>
+		seedDB(
+			{
+				dbName: 'eager-loading',
+				schema,
+				relations: relations(schema, {
+					users: ({ one, many }) => ({
+						posts: many('posts', { field: 'id', references: 'userId' }),
+						profile: one('profiles', { field: 'id', references: 'userId' }),
+						roles: many('roles', {
+							field: 'id',
+							references: 'id',
+							through: {
+								table: 'user_roles',
+								field: 'userId',
+								references: 'roleId',
+							},
+						}),
+					}),
+					posts: ({ one, many }) => ({
+						author: one('users', { field: 'userId', references: 'id' }),
+						comments: many('comments', { field: 'id', references: 'postId' }),
+					}),
+				}),
+			},
+			{
+				users: [{ name: 'Ann' }, { name: 'Bob' }, { name: 'Cat' }],
+				profiles: [{ userId: 1, bio: 'hi' }],
+				posts: [
+					{ userId: 1, title: 'a' },
+					{ userId: 2, title: 'b' },
+					{ userId: 1, title: 'c' },
+				],
+				comments: [
+					{ postId: 1, body: 'x' },
+					{ postId: 3, body: 'y' },
+					{ postId: 3, body: 'z' },
+				],
+				roles: [
+					{ id: 1, name: 'admin' },
+					{ id: 2, name: 'editor' },
+				],
+				user_roles: [
+					{ userId: 1, roleId: 2 },
+					{ userId: 1, roleId: 1 },
+					{ userId: 2, roleId: 2 },
+				],
+			}
+		);
+
+	it('loads one and many relations with one index lookup each', async () => {
+		const db = await seed();
+		const openCursor = vi.spyOn(IDBIndex.prototype, 'openCursor');
+
+		const users = await db.from('users').with({ posts: true, profile: true }).findAll();
+
+		expect(
+			users.map((user) => [
+				user.name,
+				user.posts.map((post) => post.title),
+				user.profile?.bio ?? null,
+			])
+		).toEqual([
+			['Ann', ['a', 'c'], 'hi'],
+			['Bob', ['b'], null],
+			['Cat', [], null],
+		]);
+		expect(
+			(openCursor.mock.contexts as IDBIndex[]).map(
+				(index) => `${index.objectStore.name}.${index.name}`
+			)
+		).toEqual(['posts.userId', 'profiles.userId']);
+	});
+
+	it('loads many-to-one relations', async () => {
+		const db = await seed();
+
+		const posts = await db.from('posts').with({ author: true }).findAll();
+
+		expect(posts.map((post) => post.author?.name)).toEqual(['Ann', 'Bob', 'Ann']);
+	});
+
+	it('loads many-to-many relations through the join table, in link order', async () => {
+		const db = await seed();
+
+		const users = await db.from('users').with({ roles: true }).findAll();
+
+		expectTypeOf(users[0].roles).toEqualTypeOf<Array<{ id: number; name: string }>>();
+		expect(users.map((user) => user.roles.map((role) => role.name))).toEqual([
+			['editor', 'admin'],
+			['editor'],
+			[],
+		]);
+	});
+
+	it('loads nested relations', async () => {
+		const db = await seed();
+
+		const users = await db
+			.from('users')
+			.with({ posts: { with: { comments: true, author: true } } })
+			.findAll();
+
+		expectTypeOf(users[0].posts[0].comments).toEqualTypeOf<
+			Array<{ id: number; postId: number; body: string }>
+		>();
+		expect(
+			users.map((user) =>
+				user.posts.map((post) => [
+					post.title,
+					post.author?.name,
+					post.comments.map((comment) => comment.body),
+				])
+			)
+		).toEqual([
+			[
+				['a', 'Ann', ['x']],
+				['c', 'Ann', ['y', 'z']],
+			],
+			[['b', 'Bob', []]],
+			[],
+		]);
+	});
+
+	it('loads relations after pagination with every reader', async () => {
+		const db = await seed();
+		const query = () => db.from('users').with({ posts: true });
+
+		const streamed: number[] = [];
+
+		await query().stream((user) => void streamed.push(user.posts.length));
+
+		expect((await query().findByPk(2))?.posts.map((post) => post.id)).toEqual([2]);
+		expect((await query().findFirst())?.posts.map((post) => post.id)).toEqual([1, 3]);
+		expect((await query().offset(1).limit(1).findAll()).map((user) => user.name)).toEqual([
+			'Bob',
+		]);
+		expect(
+			(await query().page({ limit: 2 })).items.map((user) => user.posts.length)
+		).toEqual([2, 1]);
+		expect(streamed).toEqual([2, 1, 0]);
+	});
+
+	it('rejects unknown relations', async () => {
+		const db = await seed();
+
+		// @ts-expect-error: only declared relations can be loaded
+		expect(() => db.from('users').with({ nope: true })).toThrow(
+			new RangeError(`Relation 'nope' does not exist on table "users".`)
+		);
+		expect(() =>
+			db.from('users').with({ posts: { with: { roles: true } } } as never)
+		).toThrow(new RangeError(`Relation 'roles' does not exist on table "posts".`));
+	});
+});
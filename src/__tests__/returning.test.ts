@@ -0,0 +1,106 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+import { column, defineSchema, eq } from '..';
+import { seedDB } from './fixtures';
+
+const schema = defineSchema({
+	users: {
+		id: column.int().pk().auto(),
+		name: column.text(),
+		role: column.text().index(),
+		revision: column
+			.int()
+			.default(1)
+			.onUpdate((current) => (current ?? 0) + 1),
+	},
+});
+
+const seed = () =>
+	seedDB(
+		{ dbName: 'returning', schema },
+		{
+			users: [
+				{ name: 'Ann', role: 'admin' },
+				{ name: 'Bob', role: 'member' },
+				{ name: 'Cat', role: 'member' },
+			],
+		}
+	);
+
+describe('UpdateQuery.returning()', () => {
+	it('resolves to the rows as stored after the update', async () => {
+		const db = await seed();
+
+		const rows = await db
+			.update('users')
+			.set({ role: 'guest' })
+			.where(eq('role', 'member'))
+			.returning()
+			.run();
+
+		expect(rows).toEqual([
+			{ id: 2, name: 'Bob', role: 'guest', revision: 2 },
+			{ id: 3, name: 'Cat', role: 'guest', revision: 2 },
+		]);
+	});
+
+	it('projects the selected fields', async () => {
+		const db = await seed();
+
+		const picked = await db
+			.update('users')
+			.set((user) => ({ name: user.name.toUpperCase() }))
+			.wherePk(1)
+			.returning({ id: true, name: true })
+			.run();
+		const omitted = await db
+			.update('users')
+			.set({ role: 'owner' })
+			.wherePk(1)
+			.returning({ revision: false })
+			.run();
+
+		expectTypeOf(picked).toEqualTypeOf<Array<{ id: number; name: string }>>();
+		expectTypeOf(omitted).toEqualTypeOf<
+			Array<{ id: number; name: string; role: string }>
+		>();
+
+		expect(picked).toEqual([{ id: 1, name: 'ANN' }]);
+		expect(omitted).toEqual([{ id: 1, name: 'ANN', role: 'owner' }]);
+	});
+
+	it('resolves to an empty array when no row matches', async () => {
+		const db = await seed();
+
+		expect(
+			await db.update('users').set({ role: 'x' }).wherePk(9).returning().run()
+		).toEqual([]);
+	});
+});
+
+describe('DeleteQuery.returning()', () => {
+	it('resolves to the rows as they were before deletion', async () => {
+		const db = await seed();
+
+		const rows = await db.delete('users').where('role', 'member').returning().run();
+
+		expect(rows).toEqual([
+			{ id: 2, name: 'Bob', role: 'member', revision: 1 },
+			{ id: 3, name: 'Cat', role: 'member', revision: 1 },
+		]);
+		expect(await db.from('users').count()).toBe(1);
+	});
+
+	it('projects the selected fields', async () => {
+		const db = await seed();
+
+		const ids = await db
+			.delete('users')
+			.where((user) => user.id > 1)
+			.returning({ id: true })
+			.run();
+
+		expectTypeOf(ids).toEqualTypeOf<Array<{ id: number }>>();
+		expect(ids).toEqual([{ id: 2 }, { id: 3 }]);
+	});
+});
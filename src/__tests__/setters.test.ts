@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+
+import { column, defineSchema } from '..';
+import { openDB, seedDB } from './fixtures';
+
+const schema = defineSchema({
+	posts: {
+		id: column.int().pk().auto(),
+		title: column.text(),
+		views: column.int().optional(),
+		done: column.bool().optional(),
+		tags: column.array<string>(),
+		labels: column.set<string>(),
+	},
+});
+
+const seed = () =>
+	seedDB(
+		{ dbName: 'setters', schema },
+		{
+			posts: [
+				{ title: 'a', views: 5, done: true, tags: ['x'], labels: new Set(['x']) },
+				{ title: 'b', tags: [], labels: new Set() },
+			],
+		}
+	);
+
+describe('computed setters', () => {
+	it('applies setters in order, each on the row updated by the previous ones', async () => {
+		const db = await seed();
+
+		await db
+			.update('posts')
+			.increment('views', 10)
+			.set((post) => ({ title: `${post.title}:${post.views}` }))
+			.increment('views', -1)
+			.run();
+
+		expect(
+			(await db.from('posts').findAll()).map(({ title, views }) => ({ title, views }))
+		).toEqual([
+			{ title: 'a:15', views: 14 },
+			{ title: 'b:10', views: 9 },
+		]);
+	});
+
+	it('increments missing values from 0', async () => {
+		const db = await seed();
+
+		await db.update('posts').increment('views').wherePk(2).run();
+
+		expect((await db.from('posts').findByPk(2))?.views).toBe(1);
+	});
+
+	it('rejects increments of non-numeric values and rolls back', async () => {
+		const legacy = defineSchema({
+			posts: { id: column.int().pk().auto(), views: column.text() },
+		});
+		const old = await seedDB(
+			{ dbName: 'setters', schema: legacy },
+			{ posts: [{ views: '3' }, { views: 'many' }] }
+		);
+
+		old.close();
+
+		const db = openDB({
+			dbName: 'setters',
+			schema: defineSchema({
+				posts: { id: column.int().pk().auto(), views: column.int().optional() },
+			}),
+		});
+
+		await expect(db.update('posts').increment('views').run()).rejects.toThrow("'views'");
+		expect((await db.from('posts').findAll()).map((post) => post.views)).toEqual([
+			'3',
+			'many',
+		]);
+
+		// @ts-expect-error: only numeric columns can be incremented
+		db.update('posts').increment('missing');
+	});
+
+	it('appends to array and set columns', async () => {
+		const db = await seed();
+
+		await db.update('posts').append('tags', 'x', 'y').append('labels', 'x', 'y').run();
+
+		const [first, second] = await db.from('posts').findAll();
+
+		expect(first.tags).toEqual(['x', 'x', 'y']);
+		expect(first.labels).toEqual(new Set(['x', 'y']));
+		expect(second.tags).toEqual(['x', 'y']);
+		expect(second.labels).toEqual(new Set(['x', 'y']));
+	});
+
+	it('toggles boolean columns', async () => {
+		const db = await seed();
+
+		expect(await db.update('posts').toggle('done').run()).toBe(2);
+		expect((await db.from('posts').findAll()).map((post) => post.done)).toEqual([
+			false,
+			true,
+		]);
+	});
+});
@@ -0,0 +1,15 @@
+import 'fake-indexeddb/auto';
+
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach } from 'vitest';
+
+import { closeDBs } from './fixtures';
+
+// `Locality` opens databases through `window.indexedDB`
+Object.assign(globalThis, { window: globalThis });
+
+beforeEach(() => {
+	globalThis.indexedDB = new IDBFactory();
+});
+
+afterEach(closeDBs);
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+
+import { column, defineSchema, isTimestamp, table } from '..';
+import { seedDB } from './fixtures';
+
+const authors = table(
+	'authors',
+	{
+		id: column.int().pk().auto(),
+		name: column.text(),
+		deletedAt: column.timestamp().nullable().default(null),
+	},
+	{ softDelete: 'deletedAt' }
+);
+
+const posts = table(
+	'posts',
+	{
+		id: column.int().pk().auto(),
+		authorId: column
+			.int()
+			.index()
+			.references(() => authors.columns.id, { onDelete: 'cascade' }),
+		title: column.text(),
+		deletedAt: column.timestamp().nullable().default(null),
+	},
+	{ softDelete: 'deletedAt' }
+);
+
+const reviews = table('reviews', {
+	id: column.int().pk().auto(),
+	postId: column
+		.int()
+		.index()
+		.references(() => posts.columns.id),
+});
+
+const schema = defineSchema({ authors, posts, reviews });
+
+async function seed() {
+	const db = await seedDB(
+		{ dbName: 'soft-delete', schema },
+		{
+			authors: [{ name: 'Ann' }, { name: 'Bob' }],
+			posts: [
+				{ authorId: 1, title: 'a' },
+				{ authorId: 1, title: 'b' },
+				{ authorId: 2, title: 'c' },
+				{ authorId: 2, title: 'd' },
+			],
+		}
+	);
+
+	expect(await db.delete('posts').where('authorId', 1).run()).toBe(2);
+
+	return db;
+}
+
+const titles = (rows: Array<{ title: string }>) => rows.map((row) => row.title);
+
+describe('read scopes', () => {
+	it('leaves soft-deleted rows out by default', async () => {
+		const db = await seed();
+		const query = () => db.from('posts');
+
+		const streamed: string[] = [];
+
+		await query().stream((post) => void streamed.push(post.title));
+
+		expect(titles(await query().findAll())).toEqual(['c', 'd']);
+		expect(await query().findByPk(1)).toBeNull();
+		expect(await query().count()).toBe(2);
+		expect(
+			titles((await query().sortByIndex('authorId').page({ limit: 1 })).items)
+		).toEqual(['c']);
+		expect(streamed).toEqual(['c', 'd']);
+	});
+
+	it('includes soft-deleted rows withDeleted()', async () => {
+		const db = await seed();
+		const query = () => db.from('posts').withDeleted();
+
+		const streamed: string[] = [];
+
+		await query().stream((post) => void streamed.push(post.title));
+
+		expect(titles(await query().findAll())).toEqual(['a', 'b', 'c', 'd']);
+		expect(await query().findByPk(1)).toMatchObject({ title: 'a' });
+		expect(await query().count()).toBe(4);
+		expect(
+			titles((await query().sortByIndex('authorId').page({ limit: 3 })).items)
+		).toEqual(['a', 'b', 'c']);
+		expect(streamed).toEqual(['a', 'b', 'c', 'd']);
+	});
+
+	it('only reads soft-deleted rows onlyDeleted()', async () => {
+		const db = await seed();
+		const query = () => db.from('posts').onlyDeleted();
+
+		const streamed: string[] = [];
+
+		await query().stream((post) => void streamed.push(post.title));
+
+		expect(titles(await query().findAll())).toEqual(['a', 'b']);
+		expect(await query().findByPk(3)).toBeNull();
+		expect(await query().count()).toBe(2);
+		expect(
+			titles((await query().sortByIndex('authorId').page({ limit: 5 })).items)
+		).toEqual(['a', 'b']);
+		expect(streamed).toEqual(['a', 'b']);
+		expect((await query().findAll()).every((post) => isTimestamp(post.deletedAt))).toBe(
+			true
+		);
+	});
+});
+
+describe('delete, restore and forceDelete', () => {
+	it('stamps each row once', async () => {
+		const db = await seed();
+
+		expect(await db.delete('posts').run()).toBe(2);
+		expect(await db.from('posts').onlyDeleted().count()).toBe(4);
+	});
+
+	it('restores soft-deleted rows only', async () => {
+		const db = await seed();
+
+		expect(await db.restore('posts').run()).toBe(2);
+		expect(titles(await db.from('posts').findAll())).toEqual(['a', 'b', 'c', 'd']);
+		expect((await db.from('posts').findAll()).map((post) => post.deletedAt)).toEqual([
+			null,
+			null,
+			null,
+			null,
+		]);
+	});
+
+	it('removes rows for good, deleted or not', async () => {
+		const db = await seed();
+
+		expect(
+			await db
+				.forceDelete('posts')
+				.where((post) => post.id !== 4)
+				.run()
+		).toBe(3);
+		expect(titles(await db.from('posts').withDeleted().findAll())).toEqual(['d']);
+	});
+
+	it('applies foreign key policies on forceDelete() only', async () => {
+		const db = await seed();
+
+		await db.insert('reviews').values({ postId: 3 }).run();
+
+		// Soft deletes keep the rows: neither restrict nor cascade apply
+		expect(await db.delete('posts').wherePk(3).run()).toBe(1);
+		expect(await db.delete('authors').wherePk(1).run()).toBe(1);
+		expect(await db.from('posts').withDeleted().count()).toBe(4);
+
+		await expect(db.forceDelete('posts').wherePk(3).run()).rejects.toThrow(
+			"(onDelete: 'restrict')"
+		);
+
+		// Cascades remove referencing rows, soft-deleted or not
+		expect(await db.forceDelete('authors').wherePk(1).run()).toBe(1);
+		expect(titles(await db.from('posts').withDeleted().findAll())).toEqual(['c', 'd']);
+
+		expect(await db.restore('posts').wherePk(3).run()).toBe(1);
+		expect(await db.from('reviews').count()).toBe(1);
+	});
+});
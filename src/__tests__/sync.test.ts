@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+
+import { column, defineSchema } from '..';
+import type { SchemaDiff, SchemaSyncPolicy } from '..';
+import { openDB, seedDB } from './fixtures';
+
+const v1 = defineSchema({
+	users: { id: column.int().pk().auto(), email: column.text().index() },
+	drafts: { id: column.int().pk().auto(), body: column.text() },
+});
+
+const v2 = defineSchema({
+	users: { id: column.int().pk().auto(), email: column.text() },
+});
+
+async function upgrade(syncPolicy?: SchemaSyncPolicy) {
+	const old = await seedDB(
+		{ dbName: 'sync', version: 1, schema: v1 },
+		{ drafts: [{ body: 'kept?' }] }
+	);
+
+	old.close();
+
+	const diffs: SchemaDiff[] = [];
+	const db = openDB({
+		dbName: 'sync',
+		version: 2,
+		schema: v2,
+		syncPolicy,
+		onSchemaChange: (diff) => void diffs.push(diff),
+	});
+
+	return { db, diffs };
+}
+
+describe('schema sync', () => {
+	it('deletes removed stores and indexes by default', async () => {
+		const { db, diffs } = await upgrade();
+
+		await db.ready();
+
+		expect(diffs).toEqual([
+			expect.objectContaining({
+				oldVersion: 1,
+				newVersion: 2,
+				removedStores: ['drafts'],
+				removedIndexes: [{ store: 'users', index: 'email' }],
+			}),
+		]);
+		expect(db.tableList).toEqual(['users']);
+	});
+
+	it('keeps removed stores with the preserve policy', async () => {
+		const { db } = await upgrade('preserve');
+
+		await db.ready();
+
+		expect(db.tableList).toEqual(['drafts', 'users']);
+	});
+
+	it('fails the upgrade with the strict policy', async () => {
+		const { db, diffs } = await upgrade('strict');
+
+		await expect(db.ready()).rejects.toThrow("Schema sync policy 'strict' does not allow");
+		expect(diffs).toEqual([]);
+
+		const reopened = openDB({ dbName: 'sync', schema: v1 });
+
+		await reopened.ready();
+		expect(reopened.version).toBe(1);
+	});
+});
+
+describe('automatic versioning', () => {
+	const open = (schema: typeof v1 | typeof v2, version?: number) =>
+		openDB({ dbName: 'auto-version', version, schema, autoVersion: true });
+
+	it('bumps the version only when the layout changes', async () => {
+		const first = open(v1);
+
+		await first.ready();
+		expect(first.version).toBe(1);
+		first.close();
+
+		const same = open(v1);
+
+		await same.ready();
+		expect(same.version).toBe(1);
+		same.close();
+
+		const changed = open(v2);
+
+		await changed.ready();
+		expect(changed.version).toBe(2);
+		expect(changed.tableList).toEqual(['users']);
+		changed.close();
+
+		const minimum = open(v2, 5);
+
+		await minimum.ready();
+		expect(minimum.version).toBe(5);
+	});
+
+	it('stores a snapshot of the layout', async () => {
+		const db = open(v2);
+
+		expect(await db.getStoredSchema()).toEqual({
+			fingerprint: expect.stringMatching(/^[0-9a-f]{8}$/),
+			version: 1,
+			stores: [
+				{
+					name: 'users',
+					keyPath: 'id',
+					autoIncrement: true,
+					indexes: [],
+				},
+			],
+			updatedAt: expect.any(String),
+		});
+
+		const plain = openDB({ dbName: 'no-snapshot', schema: v2 });
+
+		expect(await plain.getStoredSchema()).toBeNull();
+	});
+
+	it('rejects migrations', () => {
+		expect(() =>
+			openDB({
+				dbName: 'auto-version',
+				schema: v2,
+				autoVersion: true,
+				migrations: { 1: () => {} },
+			})
+		).toThrow('The "autoVersion" option cannot be combined with "migrations"');
+	});
+});
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+
+import { column, defineSchema } from '..';
+import { seedDB } from './fixtures';
+
+const schema = defineSchema({
+	users: {
+		id: column.int().pk().auto(),
+		email: column.text().unique(),
+		name: column.text().index(),
+		logins: column.int().default(0),
+		revision: column
+			.int()
+			.default(1)
+			.onUpdate((current) => (current ?? 0) + 1),
+	},
+});
+
+const seed = () =>
+	seedDB(
+		{ dbName: 'upsert', schema },
+		{
+			users: [
+				{ email: 'ann@x.dev', name: 'Ann' },
+				{ email: 'bob@x.dev', name: 'Bob' },
+			],
+		}
+	);
+
+describe('onConflictDoNothing()', () => {
+	it('skips rows conflicting on the primary key or any unique index', async () => {
+		const db = await seed();
+
+		const result = await db
+			.insert('users')
+			.values([
+				{ id: 1, email: 'other@x.dev', name: 'Other' },
+				{ email: 'bob@x.dev', name: 'Robert' },
+				{ email: 'cat@x.dev', name: 'Cat' },
+			])
+			.onConflictDoNothing()
+			.run();
+
+		expect(result).toEqual({
+			inserted: [{ id: 3, email: 'cat@x.dev', name: 'Cat', logins: 0, revision: 1 }],
+			updated: [],
+			skipped: [
+				{ id: 1, email: 'ann@x.dev', name: 'Ann', logins: 0, revision: 1 },
+				{ id: 2, email: 'bob@x.dev', name: 'Bob', logins: 0, revision: 1 },
+			],
+		});
+		expect(await db.from('users').count()).toBe(3);
+	});
+
+	it('only skips rows conflicting on the target key', async () => {
+		const db = await seed();
+
+		const result = await db
+			.insert('users')
+			.values([
+				{ email: 'ann@x.dev', name: 'Anna' },
+				{ email: 'cat@x.dev', name: 'Cat' },
+			])
+			.onConflictDoNothing({ target: 'email' })
+			.run();
+
+		expect(result.inserted.map((user) => user.name)).toEqual(['Cat']);
+		expect(result.skipped.map((user) => user.name)).toEqual(['Ann']);
+
+		await expect(
+			db
+				.insert('users')
+				.values({ id: 1, email: 'dan@x.dev', name: 'Dan' })
+				.onConflictDoNothing({ target: 'email' })
+				.run()
+		).rejects.toThrow();
+		expect(await db.from('users').count()).toBe(3);
+	});
+});
+
+describe('onConflictDoUpdate()', () => {
+	it('updates the row conflicting on the primary key by default', async () => {
+		const db = await seed();
+
+		const result = await db
+			.insert('users')
+			.values([
+				{ id: 2, email: 'bob@x.dev', name: 'Robert' },
+				{ email: 'cat@x.dev', name: 'Cat' },
+			])
+			.onConflictDoUpdate({ set: (_, incoming) => ({ name: incoming.name }) })
+			.run();
+
+		expect(result).toEqual({
+			inserted: [{ id: 3, email: 'cat@x.dev', name: 'Cat', logins: 0, revision: 1 }],
+			updated: [{ id: 2, email: 'bob@x.dev', name: 'Robert', logins: 0, revision: 2 }],
+			skipped: [],
+		});
+	});
+
+	it('fails on a conflict with another unique index than the target', async () => {
+		const db = await seed();
+
+		await expect(
+			db
+				.insert('users')
+				.values({ email: 'bob@x.dev', name: 'Robert' })
+				.onConflictDoUpdate({ set: { name: 'Robert' } })
+				.run()
+		).rejects.toThrow();
+		expect(await db.from('users').findByPk(2)).toMatchObject({ name: 'Bob', revision: 1 });
+	});
+
+	it('updates the row conflicting on a unique index target', async () => {
+		const db = await seed();
+
+		const result = await db
+			.insert('users')
+			.values([
+				{ email: 'bob@x.dev', name: 'Robert' },
+				{ email: 'bob@x.dev', name: 'Bobby' },
+			])
+			.onConflictDoUpdate({
+				target: 'email',
+				set: (existing, incoming) => ({
+					name: incoming.name,
+					logins: existing.logins + 1,
+				}),
+			})
+			.run();
+
+		expect(result.inserted).toEqual([]);
+		expect(result.updated).toEqual([
+			{ id: 2, email: 'bob@x.dev', name: 'Robert', logins: 1, revision: 2 },
+			{ id: 2, email: 'bob@x.dev', name: 'Bobby', logins: 2, revision: 3 },
+		]);
+		expect(await db.from('users').findByPk(2)).toEqual(result.updated[1]);
+	});
+
+	it('rejects targets that are neither the primary key nor a unique index', async () => {
+		const db = await seed();
+
+		await expect(
+			db
+				.insert('users')
+				.values({ email: 'cat@x.dev', name: 'Ann' })
+				.onConflictDoUpdate({ target: 'name', set: { logins: 1 } })
+				.run()
+		).rejects.toThrow(
+			new RangeError(
+				`Conflict target 'name' of table "users" must be the primary key or a unique index.`
+			)
+		);
+		expect(await db.from('users').count()).toBe(2);
+	});
+
+	it('rejects updates changing the primary key', async () => {
+		const db = await seed();
+
+		await expect(
+			db
+				.insert('users')
+				.values({ email: 'ann@x.dev', name: 'Ann' })
+				.onConflictDoUpdate({ target: 'email', set: { id: 9 } })
+				.run()
+		).rejects.toThrow(
+			'onConflictDoUpdate() cannot change the primary key of table "users".'
+		);
+	});
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { column, defineSchema, Locality } from '..';
+import { openDB, seedDB } from './fixtures';
+
+const schema = defineSchema({
+	notes: { id: column.int().pk().auto(), text: column.text() },
+});
+
+const upgraded = defineSchema({
+	...schema,
+	tags: { id: column.int().pk().auto(), name: column.text() },
+});
+
+/** Open a plain connection that ignores version change requests */
+const openRaw = (name: string, version?: number) =>
+	new Promise<IDBDatabase>((resolve, reject) => {
+		const request = indexedDB.open(name, version);
+
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+
+describe('versionchange', () => {
+	it('closes and reopens the connection at the version of another connection', async () => {
+		const db = await seedDB(
+			{ dbName: 'version-events', schema },
+			{ notes: [{ text: 'a' }] }
+		);
+		const onVersionChange = vi.fn();
+
+		db.on('versionchange', onVersionChange);
+
+		const other = openDB({ dbName: 'version-events', version: 2, schema: upgraded });
+
+		await other.ready();
+
+		expect(onVersionChange.mock.calls).toEqual([[{ oldVersion: 1, newVersion: 2 }]]);
+
+		await db.ready();
+
+		expect(db.version).toBe(2);
+		expect(await db.from('notes').findAll()).toEqual([{ id: 1, text: 'a' }]);
+
+		await other.insert('notes').values({ text: 'b' }).run();
+
+		expect(await db.from('notes').count()).toBe(2);
+	});
+
+	it('stays closed after the database is deleted', async () => {
+		const db = openDB({ dbName: 'version-events', schema });
+		const onVersionChange = vi.fn();
+
+		await db.ready();
+
+		db.on('versionchange', onVersionChange);
+
+		await Locality.deleteDatabase('version-events');
+
+		expect(onVersionChange.mock.calls).toEqual([[{ oldVersion: 1, newVersion: null }]]);
+		expect(await Locality.getDatabaseList()).toEqual([]);
+		await expect(db.from('notes').findAll()).rejects.toThrow();
+	});
+
+	it('stops notifying removed listeners', async () => {
+		const db = openDB({ dbName: 'version-events', schema });
+		const onVersionChange = vi.fn();
+
+		await db.ready();
+
+		db.on('versionchange', onVersionChange)();
+
+		await openDB({ dbName: 'version-events', version: 2, schema: upgraded }).ready();
+
+		expect(onVersionChange).not.toHaveBeenCalled();
+	});
+});
+
+describe('blocked', () => {
+	it('notifies while another connection keeps the upgrade waiting', async () => {
+		const raw = await openRaw('version-events', 1);
+		const onBlocked = vi.fn();
+
+		const db = openDB({ dbName: 'version-events', version: 2, schema });
+
+		db.on('blocked', onBlocked);
+
+		await vi.waitFor(() =>
+			expect(onBlocked.mock.calls).toEqual([[{ oldVersion: 1, newVersion: 2 }]])
+		);
+
+		raw.close();
+		await db.ready();
+
+		expect(db.version).toBe(2);
+		expect(await db.insert('notes').values({ text: 'a' }).run()).toMatchObject({ id: 1 });
+	});
+});
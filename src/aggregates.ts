@@ -0,0 +1,142 @@
+import { _compare, _isEqual } from './planner';
+import type { GenericObject, GroupAggregates } from './types';
+
+/** Numeric values of a field, skipping `null`, `undefined` and non-numbers */
+function _numbersOf<T extends GenericObject>(rows: readonly T[], field: string): number[] {
+	return rows.flatMap((row) => {
+		const value: unknown = row[field];
+
+		return typeof value === 'number' && !Number.isNaN(value) ? [value] : [];
+	});
+}
+
+/** Sum a numeric field (`0` for no values) */
+export function _sumOf<T extends GenericObject>(rows: readonly T[], field: string): number {
+	return _numbersOf(rows, field).reduce((total, value) => total + value, 0);
+}
+
+/** Average a numeric field (`null` for no values) */
+export function _avgOf<T extends GenericObject>(
+	rows: readonly T[],
+	field: string
+): number | null {
+	const values = _numbersOf(rows, field);
+
+	return values.length > 0 ? _sumOf(rows, field) / values.length : null;
+}
+
+/**
+ * Find the minimum or maximum value of a field in `IndexedDB` key order.
+ * - `null`, `undefined` and values not comparable with the current extreme are skipped.
+ */
+export function _extremeOf<T extends GenericObject>(
+	rows: readonly T[],
+	field: string,
+	kind: 'min' | 'max'
+): unknown {
+	let extreme: unknown = null;
+
+	for (const row of rows) {
+		const value: unknown = row[field];
+
+		if (value === null || value === undefined) continue;
+
+		const order = extreme === null ? NaN : _compare(value, extreme);
+
+		if (extreme === null || (kind === 'min' ? order < 0 : order > 0)) {
+			extreme = value;
+		}
+	}
+
+	return extreme;
+}
+
+/** Compare group/distinct keys: comparable keys in `IndexedDB` key order, `null`/`undefined` last */
+export function _compareKeys(a: unknown, b: unknown): number {
+	const aIsNull = a === null || a === undefined;
+	const bIsNull = b === null || b === undefined;
+
+	if (aIsNull || bIsNull) return Number(aIsNull) - Number(bIsNull);
+
+	const order = _compare(a, b);
+
+	return Number.isNaN(order) ? 0 : order;
+}
+
+/** Partition rows by the value of a field (in order of first appearance) */
+function _partitionRows<T extends GenericObject>(
+	rows: readonly T[],
+	field: string
+): Array<{ key: unknown; rows: T[] }> {
+	const groups: Array<{ key: unknown; rows: T[] }> = [];
+	const byPrimitive = new Map<unknown, { key: unknown; rows: T[] }>();
+
+	for (const row of rows) {
+		const key: unknown = row[field];
+		const isPrimitive = typeof key !== 'object' || key === null;
+
+		let group =
+			isPrimitive ?
+				byPrimitive.get(key)
+			:	groups.find((candidate) => _isEqual(candidate.key, key));
+
+		if (!group) {
+			group = { key, rows: [] };
+			groups.push(group);
+
+			if (isPrimitive) byPrimitive.set(key, group);
+		}
+
+		group.rows.push(row);
+	}
+
+	return groups;
+}
+
+/**
+ * Get the first row for each distinct value of a field (in order of first appearance).
+ * - Rows with a `null` or `undefined` value are skipped.
+ */
+export function _distinctRows<T extends GenericObject>(rows: readonly T[], field: string): T[] {
+	return _partitionRows(rows, field).flatMap(({ key, rows }) =>
+		key === null || key === undefined ? [] : [rows[0]]
+	);
+}
+
+/**
+ * Group rows by a field and compute the requested aggregates per group.
+ * - Groups are sorted by key (`null`/`undefined` keys last).
+ */
+export function _groupRows<T extends GenericObject>(
+	rows: readonly T[],
+	field: string,
+	aggregates: GroupAggregates<T> = {}
+): GenericObject[] {
+	const groups = _partitionRows(rows, field);
+
+	groups.sort((a, b) => _compareKeys(a.key, b.key));
+
+	const { sum, avg, min, max } = aggregates;
+
+	return groups.map(({ key, rows }) => {
+		const result: GenericObject = { key, count: rows.length };
+
+		if (sum) {
+			result.sum = Object.fromEntries(sum.map((f) => [f, _sumOf(rows, f)]));
+		}
+
+		if (avg) {
+			result.avg = Object.fromEntries(avg.map((f) => [f, _avgOf(rows, f)]));
+		}
+
+		if (min) {
+			result.min = Object.fromEntries(min.map((f) => [f, _extremeOf(rows, f, 'min')]));
+		}
+
+		if (max) {
+			result.max = Object.fromEntries(max.map((f) => [f, _extremeOf(rows, f, 'max')]));
+		}
+
+		return result;
+	});
+}
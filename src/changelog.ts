@@ -0,0 +1,112 @@
+import { _settleRequest } from './helpers';
+import type { ChangeLogEntry, ChangeOp, StoreConfig } from './types';
+import { getTimestamp } from './utils';
+
+/** Name of the internal store holding the change log (never part of a schema diff, so disabling the log keeps it) */
+export const _CHANGES_STORE = '_changes';
+
+/** Layout of the change log store: entries keyed by an auto-incremented sequence number */
+export const _CHANGES_STORE_CONFIG: StoreConfig = {
+	name: _CHANGES_STORE,
+	keyPath: 'seq',
+	autoIncrement: true,
+};
+
+/** Connections logging their writes to the change log */
+const loggingConnections = new WeakSet<IDBDatabase>();
+
+/** Log the writes of a connection to the change log */
+export function _enableChangeLog(db: IDBDatabase) {
+	loggingConnections.add(db);
+}
+
+/** Whether a connection logs its writes to the change log */
+export function _isChangeLogEnabled(db: IDBDatabase): boolean {
+	return loggingConnections.has(db);
+}
+
+/**
+ * Append the rows written to a table to the change log, in the same transaction.
+ * - Does nothing if the connection does not log its writes.
+ * - Images are rows as stored; `clear` is logged as a single entry without key and images.
+ */
+export function _logChanges(
+	transaction: IDBTransaction,
+	table: string,
+	op: ChangeOp,
+	changes: Array<Pick<ChangeLogEntry, 'key' | 'before' | 'after'>>
+) {
+	if (!loggingConnections.has(transaction.db)) return;
+
+	const store = transaction.objectStore(_CHANGES_STORE);
+	const timestamp = getTimestamp();
+
+	for (const { key, before, after } of changes) {
+		store.add({ table, key, op, before, after, timestamp });
+	}
+}
+
+/**
+ * @class Reads and prunes the change log of a database (enabled with the `changeLog` option of `Locality`).
+ *
+ * @example
+ * const entries = await db.changes.since(lastSyncedSeq);
+ *
+ * await pushToServer(entries);
+ * await db.changes.prune(entries.at(-1)?.seq ?? lastSyncedSeq);
+ */
+export class ChangeLog {
+	readonly #dbGetter: () => IDBDatabase;
+	readonly #readyPromise: Promise<void>;
+	readonly #isEnabled: boolean;
+
+	constructor(dbGetter: () => IDBDatabase, readyPromise: Promise<void>, isEnabled: boolean) {
+		this.#dbGetter = dbGetter;
+		this.#readyPromise = readyPromise;
+		this.#isEnabled = isEnabled;
+	}
+
+	/** @internal Open the change log store in a new transaction */
+	async #store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+		if (!this.#isEnabled) {
+			throw new Error(
+				'The change log is disabled. Enable it with the "changeLog" option of the Locality config.'
+			);
+		}
+
+		await this.#readyPromise;
+
+		return this.#dbGetter().transaction(_CHANGES_STORE, mode).objectStore(_CHANGES_STORE);
+	}
+
+	/**
+	 * @instance Get the entries logged after a sequence number, in order.
+	 * @param seq Sequence number of the last known entry (default: `0`, every entry).
+	 * @param limit Maximum number of entries to return.
+	 */
+	async since(seq = 0, limit?: number): Promise<ChangeLogEntry[]> {
+		const store = await this.#store('readonly');
+
+		return _settleRequest(
+			store.getAll(IDBKeyRange.lowerBound(seq, true), limit) as IDBRequest<
+				ChangeLogEntry[]
+			>
+		);
+	}
+
+	/**
+	 * @instance Remove the entries logged up to a sequence number (included).
+	 * @param seq Sequence number of the last entry to remove.
+	 * @returns Number of removed entries
+	 */
+	async prune(seq: number): Promise<number> {
+		const store = await this.#store('readwrite');
+		const range = IDBKeyRange.upperBound(seq);
+
+		const count = await _settleRequest(store.count(range));
+
+		await _settleRequest(store.delete(range));
+
+		return count;
+	}
+}
@@ -1,24 +1,70 @@
-import { IsAutoInc, IsIndexed, IsPrimaryKey, IsUnique } from './core';
+import {
+	_CHANGES_STORE,
+	_CHANGES_STORE_CONFIG,
+	_enableChangeLog,
+	_isChangeLogEnabled,
+	_logChanges,
+	ChangeLog,
+} from './changelog';
+import { _resolveForeignKeys, _withConstraintTables } from './constraints';
+import {
+	ColumnType,
+	IsAutoInc,
+	IsIndexed,
+	IsMultiEntry,
+	IsNullable,
+	IsPrimaryKey,
+	IsUnique,
+} from './core';
 import { openDBWithStores } from './factory';
-import { _abortTransaction, _ensureIndexedDB, _getDBList } from './helpers';
+import { _runBeforeInsert, _writeScope } from './hooks';
+import { _onChanges, _openChannel, _recordChanges } from './live';
+import {
+	_abortTransaction,
+	_ensureIndexedDB,
+	_extractKey,
+	_getDBList,
+	_getStoredSetFields,
+	_restoreSets,
+	_rollbackTransaction,
+	_settleRequest,
+} from './helpers';
+import { _validateMigrations } from './migrations';
+import { isNull, not } from './operators';
+import { _isValidKey } from './planner';
 import { DeleteQuery, InsertQuery, SelectQuery, UpdateQuery } from './query';
+import { _META_STORE, _readStoredSchema, _readStoreLayout, _resolveAutoVersion } from './sync';
 import type {
 	$InferRow,
+	$RelationScope,
+	ChangeListener,
 	ExportData,
 	ExportedTableData,
 	ExportObjectOptions,
 	ExportOptions,
+	ForeignKey,
+	GenericObject,
+	HookContext,
 	ImportOptions,
 	IndexConfig,
 	InferInsertType,
 	InferSelectType,
+	InferUpdateType,
+	KeyPath,
 	LocalityConfig,
+	LocalityEventMap,
 	LooseLiteral,
 	Maybe,
+	RelationGraph,
+	RelationsDefinition,
 	SchemaDefinition,
 	StoreConfig,
+	StoredSchema,
+	TableHooks,
 	TransactionCallback,
 	TransactionContext,
+	Unsubscribe,
+	VersionListener,
 } from './types';
 import { deleteDB, getTimestamp } from './utils';
 import { validateAndPrepareData } from './validators';
@@ -66,45 +112,149 @@ export class Locality<
 	Version extends number = 1,
 	Schema extends SchemaDefinition = SchemaDefinition,
 	TName extends keyof Schema & string = keyof Schema & string,
+	Relations extends RelationsDefinition<Schema> = {},
 > {
 	readonly #name: DBName;
 	readonly #schema: Schema;
-	// TODO: Handle multiple primary keys later
-	// readonly #keyPath?: string;
+	readonly #relationGraph: RelationGraph;
 
-	readonly #keyPaths: Record<TName, Maybe<string>>;
+	readonly #foreignKeys: ForeignKey[];
+	readonly #hooks: Record<string, TableHooks>;
+
+	readonly #keyPaths: Record<TName, Maybe<KeyPath>>;
 
 	readonly #configVersion: Version;
 
+	readonly #versionListeners = {
+		versionchange: new Set<VersionListener>(),
+		blocked: new Set<VersionListener>(),
+	};
+
+	readonly #releaseChannel: () => void;
+	readonly #changeLog: boolean;
+
 	#db!: IDBDatabase;
 	#version!: Version;
 	#readyPromise: Promise<void>;
 
-	constructor(config: LocalityConfig<DBName, Version, Schema>) {
+	constructor(config: LocalityConfig<DBName, Version, Schema, Relations>) {
 		this.#name = config.dbName;
 		this.#schema = config.schema;
+		this.#relationGraph = { schema: config.schema, relations: config.relations ?? {} };
+		this.#foreignKeys = _resolveForeignKeys(config.schema);
+		this.#hooks = Object.fromEntries(
+			Object.entries(config.schema).map(([name, table]) => [
+				name,
+				{ ...table.options.hooks },
+			])
+		);
 		this.#configVersion = (config.version ?? 1) as Version;
+		this.#releaseChannel = config.broadcast === false ? () => {} : _openChannel(this.#name);
+		this.#changeLog = config.changeLog ?? false;
 
 		const store = this.#buildStoresConfig();
 
-		// TODO: Handle multiple primary keys later
 		this.#keyPaths = store.reduce(
 			(acc, { name, keyPath }) => {
 				acc[name as TName] = keyPath;
 				return acc;
 			},
-			{} as Record<TName, Maybe<string>>
+			{} as Record<TName, Maybe<KeyPath>>
 		);
 
-		this.#readyPromise = openDBWithStores(this.#name, store, config.version)
-			.then((db) => {
-				this.#db = db;
-			})
+		if (this.#changeLog) {
+			if (_CHANGES_STORE in config.schema) {
+				throw new RangeError(
+					`Table name "${_CHANGES_STORE}" is reserved for the change log. Rename the table or disable the "changeLog" option.`
+				);
+			}
+
+			store.push(_CHANGES_STORE_CONFIG);
+		}
+
+		if (config.migrations) {
+			// Automatic bumps would move the database past versions whose migrations never ran
+			if (config.autoVersion) {
+				throw new RangeError(
+					'The "autoVersion" option cannot be combined with "migrations": migrations need explicit versions. Remove "autoVersion" and bump "version" instead.'
+				);
+			}
+
+			_validateMigrations(config.migrations, this.#configVersion);
+		}
+
+		const version =
+			config.autoVersion ?
+				_resolveAutoVersion(this.#name, store, this.#configVersion)
+			:	Promise.resolve(config.version);
+
+		this.#readyPromise = version
+			.then((version) =>
+				openDBWithStores(this.#name, store, version, {
+					migrations: config.migrations,
+					syncPolicy: config.syncPolicy,
+					onSchemaChange: config.onSchemaChange,
+					trackSchema: config.autoVersion,
+					onBlocked: (event) => this.#emitVersionEvent('blocked', event),
+				})
+			)
+			.then((db) => this.#connect(db))
 			.finally(() => {
 				this.#version = this.#db?.version as Version;
 			});
 	}
 
+	/** @internal Notify the listeners of a version event registered with `on()` */
+	#emitVersionEvent(
+		type: Exclude<keyof LocalityEventMap, 'change'>,
+		event: IDBVersionChangeEvent
+	) {
+		const { oldVersion, newVersion } = event;
+
+		for (const listener of [...this.#versionListeners[type]]) {
+			listener({ oldVersion, newVersion });
+		}
+	}
+
+	/**
+	 * @internal Use an opened connection, closed and reopened when another connection requests a version change.
+	 * @throws {Error} If the change log is enabled but its store was not created (the database was not upgraded)
+	 */
+	#connect(db: IDBDatabase) {
+		if (this.#changeLog) {
+			if (!db.objectStoreNames.contains(_CHANGES_STORE)) {
+				db.close();
+
+				throw new Error(
+					`The change log store "${_CHANGES_STORE}" does not exist in database "${this.#name}" (version ${db.version}). Bump the version (or use "autoVersion") to enable the "changeLog" option.`
+				);
+			}
+
+			_enableChangeLog(db);
+		}
+
+		this.#db = db;
+
+		db.onversionchange = (event) => {
+			const stores = _readStoreLayout(db);
+
+			// Closing unblocks the upgrade (or deletion) requested by the other connection
+			db.close();
+			this.#emitVersionEvent('versionchange', event);
+
+			if (event.newVersion === null) return;
+
+			// Reopens at the current version, after the upgrade completes
+			this.#readyPromise = openDBWithStores(this.#name, stores, undefined, {
+				onBlocked: (event) => this.#emitVersionEvent('blocked', event),
+			})
+				.then((db) => this.#connect(db))
+				.finally(() => {
+					this.#version = this.#db?.version as Version;
+				});
+		};
+	}
+
 	/** Build store configurations from schema. */
 	#buildStoresConfig(): StoreConfig[] {
 		return Object.entries(this.#schema).map(([tableName, table]) => {
@@ -112,22 +262,62 @@ export class Locality<
 
 			const pkEntries = columnEntries.filter(([_, col]) => col[IsPrimaryKey]);
 
-			// Validate single primary key
+			// Validate primary key(s)
 			if (pkEntries.length === 0) {
 				throw new RangeError(
-					`Table "${tableName}" must have exactly one primary key. Found 0 primary keys.`
+					`Table "${tableName}" must have at least one primary key. Found 0 primary keys.`
 				);
 			}
 
-			if (pkEntries.length > 1) {
+			const nullablePk = pkEntries.find(([_, col]) => col[IsNullable]);
+
+			if (nullablePk) {
+				throw new RangeError(
+					`Primary key '${nullablePk[0]}' of table "${tableName}" cannot be nullable.`
+				);
+			}
+
+			// Multiple primary key columns form a composite (array) key path
+			const isComposite = pkEntries.length > 1;
+
+			if (isComposite && pkEntries.some(([_, col]) => col[IsAutoInc])) {
 				const pkNames = pkEntries.map(([name]) => `'${name}'`).join(', ');
 				throw new RangeError(
-					`Table "${tableName}" can only have one primary key. Found ${pkEntries.length} primary keys: ${pkNames}.`
+					`Table "${tableName}" cannot use auto() with a composite primary key: ${pkNames}.`
 				);
 			}
 
-			const [pkName, pk] = pkEntries[0];
-			const autoInc = pk?.[IsAutoInc] ?? false;
+			const { primaryKey } = table.options;
+
+			if (isComposite || primaryKey !== undefined) {
+				const pkNames = pkEntries.map(([name]) => name);
+
+				if (
+					!primaryKey ||
+					primaryKey.length !== pkNames.length ||
+					new Set(primaryKey).size !== pkNames.length ||
+					primaryKey.some((name) => !pkNames.includes(name))
+				) {
+					throw new RangeError(
+						`The primaryKey option of table "${tableName}" must list its primary key columns in key order: ${pkNames.map((name) => `'${name}'`).join(', ')}.`
+					);
+				}
+			}
+
+			const softDelete = table.options.softDelete;
+
+			if (softDelete !== undefined) {
+				const col = table.columns[softDelete];
+
+				if (!col || col[ColumnType] !== 'timestamp' || !col[IsNullable]) {
+					throw new RangeError(
+						`Soft delete column '${softDelete}' of table "${tableName}" must be a nullable timestamp column.`
+					);
+				}
+			}
+
+			const keyPath = isComposite ? [...(primaryKey as string[])] : pkEntries[0][0];
+			const autoInc = isComposite ? false : (pkEntries[0][1][IsAutoInc] ?? false);
 
 			// Build indexes from columns marked with index() or unique()
 			const indexes: IndexConfig[] = [];
@@ -142,27 +332,43 @@ export class Locality<
 						name: colName,
 						keyPath: colName,
 						unique: col[IsUnique] ?? false,
+						multiEntry: col[IsMultiEntry] ?? false,
 					});
 				}
 			}
 
+			// Build table-level (compound) indexes
+			for (const [idxName, idx] of Object.entries(table.indexes)) {
+				if (indexes.some(({ name }) => name === idxName) || idxName in table.columns) {
+					throw new RangeError(
+						`Index name '${idxName}' in table "${tableName}" conflicts with a column name.`
+					);
+				}
+
+				const unknownCols = idx.columns.filter((col) => !(col in table.columns));
+
+				if (idx.columns.length === 0 || unknownCols.length > 0) {
+					throw new RangeError(
+						`Index '${idxName}' in table "${tableName}" must reference existing columns. Invalid: [${unknownCols.join(', ')}].`
+					);
+				}
+
+				indexes.push({
+					name: idxName,
+					keyPath: idx.columns.length === 1 ? idx.columns[0] : [...idx.columns],
+					unique: idx.unique,
+				});
+			}
+
 			return {
 				name: tableName,
-				keyPath: pkName,
+				keyPath,
 				autoIncrement: autoInc,
 				indexes: indexes.length > 0 ? indexes : undefined,
 			};
 		});
 	}
 
-	#extractTablePk<T extends TName, R extends $InferRow<Schema[T]['columns']>>(table: TName) {
-		const columns = this.#schema[table].columns;
-
-		const column = Object.entries(columns).find(([_, col]) => col[IsPrimaryKey]);
-
-		return column?.[0] as keyof R;
-	}
-
 	/** @instance Get the current database name. */
 	get dbName(): DBName {
 		return this.#name;
@@ -176,7 +382,28 @@ export class Locality<
 
 	/** @instance Get all table (store) names in the current database. */
 	get tableList(): LooseLiteral<TName>[] {
-		return Array.from(this.#db.objectStoreNames) as LooseLiteral<TName>[];
+		return Array.from(this.#db.objectStoreNames).filter(
+			(name) => name !== _META_STORE && (name !== _CHANGES_STORE || name in this.#schema)
+		) as LooseLiteral<TName>[];
+	}
+
+	/**
+	 * @instance Read and prune the change log (requires the `changeLog` option).
+	 *
+	 * @remarks
+	 * - Every insert, update, delete (including foreign key `cascade` and `setNull` writes), clear and import is logged in the same transaction, so the log holds exactly the committed writes.
+	 * - Entries carry a sequence number, the table, the primary key, the operation, the rows as stored before and after the write, and a timestamp.
+	 * - Writes made directly through `IDBTransaction` objects (e.g. in hooks) and by migrations are not logged.
+	 *
+	 * @example
+	 * const db = new Locality({ dbName: 'app', schema, changeLog: true });
+	 *
+	 * const entries = await db.changes.since(lastSyncedSeq);
+	 * await pushToServer(entries);
+	 * await db.changes.prune(entries.at(-1)?.seq ?? lastSyncedSeq);
+	 */
+	get changes(): ChangeLog {
+		return new ChangeLog(() => this.#db, this.#readyPromise, this.#changeLog);
 	}
 
 	/** @instance Get the list of existing `IndexedDB` databases. */
@@ -195,11 +422,13 @@ export class Locality<
 	 * @returns Select query builder for the table.
 	 */
 	from<T extends TName, Row extends $InferRow<Schema[T]['columns']>>(table: T) {
-		return new SelectQuery<Row, null, Schema[T]>(
+		return new SelectQuery<Row, null, Schema[T], $RelationScope<Schema, Relations, T>>(
 			table,
 			() => this.#db,
-			this.#readyPromise
-			// this.#keyPaths[table]
+			this.#readyPromise,
+			this.#schema[table].columns,
+			this.#relationGraph,
+			this.#schema[table].options.softDelete
 		);
 	}
 
@@ -219,7 +448,9 @@ export class Locality<
 			() => this.#db,
 			this.#readyPromise,
 			this.#schema[table].columns,
-			this.#keyPaths[table]
+			this.#keyPaths[table],
+			this.#foreignKeys,
+			this.#hooks[table]
 		);
 	}
 
@@ -233,7 +464,9 @@ export class Locality<
 			() => this.#db,
 			this.#readyPromise,
 			this.#schema[table].columns,
-			this.#keyPaths[table]
+			this.#keyPaths[table],
+			this.#foreignKeys,
+			this.#hooks[table]
 		);
 	}
 
@@ -242,24 +475,123 @@ export class Locality<
 	 * @param table Table name.
 	 */
 	delete<T extends TName, Row extends $InferRow<Schema[T]['columns']>>(table: T) {
-		return new DeleteQuery<Row, keyof Row, Schema[T]>(
+		return new DeleteQuery<Row, Schema[T]>(
 			table,
 			() => this.#db,
 			this.#readyPromise,
-			this.#extractTablePk(table)
+			this.#schema[table].columns,
+			this.#keyPaths[table],
+			this.#foreignKeys,
+			this.#hooks[table],
+			this.#schema[table].options.softDelete
 		);
 	}
 
+	/**
+	 * @instance Delete records from a table, removing soft-deleted and not deleted rows alike.
+	 * @param table Table name.
+	 *
+	 * @remarks Same as `delete()` for tables without a `softDelete` column.
+	 */
+	forceDelete<T extends TName, Row extends $InferRow<Schema[T]['columns']>>(table: T) {
+		return new DeleteQuery<Row, Schema[T]>(
+			table,
+			() => this.#db,
+			this.#readyPromise,
+			this.#schema[table].columns,
+			this.#keyPaths[table],
+			this.#foreignKeys,
+			this.#hooks[table]
+		);
+	}
+
+	/**
+	 * @instance Restore soft-deleted records of a table.
+	 * @param table Table name (with a `softDelete` column).
+	 * @returns Update query clearing the soft delete column of the matching deleted rows; filter them with `where()` / `wherePk()`.
+	 *
+	 * @example
+	 * const restored = await db.restore('posts').wherePk(42).run();
+	 */
+	restore<T extends TName, Row extends $InferRow<Schema[T]['columns']>>(table: T) {
+		return this.#restoreQuery<Row, Schema[T]>(table);
+	}
+
+	/** @internal Update query restoring the soft-deleted rows of a table */
+	#restoreQuery<Row extends GenericObject, Tbl extends Schema[TName]>(
+		table: TName,
+		transaction?: IDBTransaction
+	) {
+		const column = this.#schema[table].options.softDelete;
+
+		if (!column) {
+			throw new RangeError(`Table '${table}' does not have a softDelete column.`);
+		}
+
+		return new UpdateQuery<Row, Tbl>(
+			table,
+			() => this.#db,
+			this.#readyPromise,
+			this.#schema[table].columns,
+			this.#keyPaths[table],
+			this.#foreignKeys,
+			this.#hooks[table],
+			transaction
+		)
+			.set({ [column]: null } as InferUpdateType<Tbl>)
+			.where(not(isNull(column)));
+	}
+
+	/**
+	 * @instance Register lifecycle hooks of a table.
+	 * @param table Table name.
+	 * @param hooks Hooks to register, replacing hooks of the same name registered before (or in the schema).
+	 * @returns The `Locality` instance, for chaining.
+	 *
+	 * @remarks
+	 * - Hooks run inside the write transaction of `insert()`, `update()`, `delete()`, `seed()` and `import()`; a thrown error rolls the whole write back.
+	 * - `beforeInsert` and `beforeUpdate` receive each row before validation and may return a replacement row.
+	 * - `afterInsert` and `afterDelete` receive the stored and the deleted rows.
+	 * - If a written table has hooks, the transaction spans all tables, so hooks can read and write other tables through `context.transaction`.
+	 * - Rows changed or removed by foreign key `onDelete` policies do not run hooks.
+	 *
+	 * @example
+	 * db.hooks('users', {
+	 *   beforeInsert: (user) => ({ ...user, email: user.email.toLowerCase() }),
+	 *   afterDelete: (users, { transaction }) => {
+	 *     const audit = transaction.objectStore('audit');
+	 *     for (const user of users) audit.add({ action: 'delete', userId: user.id });
+	 *   },
+	 * });
+	 */
+	hooks<T extends TName>(table: T, hooks: TableHooks<Schema[T]>): this {
+		if (!(table in this.#schema)) {
+			throw new RangeError(`Table '${table}' does not exist in schema.`);
+		}
+
+		Object.assign(this.#hooks[table], hooks);
+
+		return this;
+	}
+
 	/**
 	 * @instance Clears all records from a specific store (table).
 	 * @param table Name of the table (store) to clear.
 	 */
 	async clearTable<T extends TName>(table: T) {
 		return new Promise<void>((resolve, reject) => {
-			const transaction = this.#db.transaction(table, 'readwrite');
+			const transaction = this.#db.transaction(
+				_writeScope(this.#db, [table], []),
+				'readwrite'
+			);
 			const store = transaction.objectStore(table);
 			const clearRequest = store.clear();
 
+			_recordChanges(transaction, table, 'clear', null);
+			_logChanges(transaction, table, 'clear', [
+				{ key: null, before: null, after: null },
+			]);
+
 			transaction.onabort = () => _abortTransaction(transaction.error, reject);
 
 			clearRequest.onsuccess = () => resolve();
@@ -270,13 +602,51 @@ export class Locality<
 	/** @instance Closes and deletes the entire database. */
 	async deleteDB() {
 		this.#db.close();
+		this.#releaseChannel();
 
 		await deleteDB(this.#name);
 	}
 
-	/** @instance Closes the current database connection. */
+	/** @instance Closes the current database connection (and the channel to other tabs). */
 	close() {
 		this.#db.close();
+		this.#releaseChannel();
+	}
+
+	/**
+	 * @instance Listen to database events.
+	 * @param event Event name: `'change'`, `'versionchange'` or `'blocked'`.
+	 * @param listener Receives the event.
+	 * @returns A function removing the listener.
+	 *
+	 * @remarks
+	 * - `change`: writes committed in this tab, or in another tab (`remote: true`), with the tables, kinds of write and primary keys of each transaction. Change sets are published on a `BroadcastChannel` named after the database (unless `broadcast` is `false`).
+	 * - `versionchange`: another connection upgrades or deletes the database. The connection is closed so the upgrade can proceed, then reopened at the new version (unless the database is deleted).
+	 * - `blocked`: opening or upgrading the database waits for connections of other tabs to close.
+	 *
+	 * @example
+	 * const off = db.on('change', ({ changes, remote }) => {
+	 *   for (const { table, op, keys } of changes) console.log(table, op, keys, remote);
+	 * });
+	 *
+	 * db.on('versionchange', ({ newVersion }) => console.log(`Upgraded to v${newVersion} in another tab.`));
+	 */
+	on<E extends keyof LocalityEventMap>(
+		event: E,
+		listener: (event: LocalityEventMap[E]) => void
+	): Unsubscribe {
+		if (event === 'change') {
+			return _onChanges(this.#name, listener as ChangeListener);
+		}
+
+		const listeners =
+			this.#versionListeners[event as Exclude<keyof LocalityEventMap, 'change'>];
+
+		listeners.add(listener as VersionListener);
+
+		return () => {
+			listeners.delete(listener as VersionListener);
+		};
 	}
 
 	/** @instance Gets the underlying `IDBDatabase` instance. */
@@ -285,6 +655,17 @@ export class Locality<
 		return this.#db;
 	}
 
+	/**
+	 * @instance Get the snapshot of the store and index layout stored by the last upgrade.
+	 * @returns The stored snapshot (fingerprint, version, stores and indexes), or `null` if there is none.
+	 *
+	 * @remarks Snapshots are only stored with `autoVersion` enabled.
+	 */
+	async getStoredSchema(): Promise<StoredSchema | null> {
+		await this.#readyPromise;
+		return _readStoredSchema(this.#db);
+	}
+
 	/**
 	 * @instance Seed data into a specific table.
 	 *
@@ -328,7 +709,9 @@ export class Locality<
 			() => this.#db,
 			this.#readyPromise,
 			this.#schema[table].columns,
-			this.#keyPaths[table]
+			this.#keyPaths[table],
+			this.#foreignKeys,
+			this.#hooks[table]
 		);
 
 		return await insertQuery.values(data).run();
@@ -341,6 +724,8 @@ export class Locality<
 	 * - All operations succeed or all fail (atomicity guaranteed by IndexedDB).
 	 * - If any operation fails, the entire transaction is rolled back automatically.
 	 * - Useful for maintaining data consistency across related tables.
+	 * - Tables touched by foreign key checks and delete policies of the given tables are included automatically.
+	 * - If any of the given tables has lifecycle hooks, the transaction spans all tables.
 	 *
 	 * @param tables Array of table names to include in the transaction
 	 * @param callback Async function that receives a transaction context and performs operations
@@ -373,15 +758,31 @@ export class Locality<
 	 */
 	async transaction<Tables extends TName[]>(
 		tables: Tables,
-		callback: TransactionCallback<Schema, TName, Tables>
+		callback: TransactionCallback<Schema, TName, Tables, Relations>
 	) {
 		await this.#readyPromise;
 
-		const transaction = this.#db.transaction(tables, 'readwrite');
+		// Tables touched by foreign key checks and delete policies join the transaction
+		const transaction = this.#db.transaction(
+			_writeScope(
+				this.#db,
+				_withConstraintTables(this.#foreignKeys, tables),
+				tables.map((table) => this.#hooks[table])
+			),
+			'readwrite'
+		);
 
-		const txContext: TransactionContext<Schema, TName, Tables> = {
+		const txContext: TransactionContext<Schema, TName, Tables, Relations> = {
 			from: (table) => {
-				return new SelectQuery(table, () => this.#db, this.#readyPromise, transaction);
+				return new SelectQuery(
+					table,
+					() => this.#db,
+					this.#readyPromise,
+					this.#schema[table].columns,
+					this.#relationGraph,
+					this.#schema[table].options.softDelete,
+					transaction
+				);
 			},
 
 			insert: (table) => {
@@ -391,6 +792,8 @@ export class Locality<
 					this.#readyPromise,
 					this.#schema[table].columns,
 					this.#keyPaths[table],
+					this.#foreignKeys,
+					this.#hooks[table],
 					transaction
 				);
 			},
@@ -402,6 +805,8 @@ export class Locality<
 					this.#readyPromise,
 					this.#schema[table].columns,
 					this.#keyPaths[table],
+					this.#foreignKeys,
+					this.#hooks[table],
 					transaction
 				);
 			},
@@ -411,10 +816,32 @@ export class Locality<
 					table,
 					() => this.#db,
 					this.#readyPromise,
-					this.#extractTablePk(table),
+					this.#schema[table].columns,
+					this.#keyPaths[table],
+					this.#foreignKeys,
+					this.#hooks[table],
+					this.#schema[table].options.softDelete,
+					transaction
+				);
+			},
+
+			forceDelete: (table) => {
+				return new DeleteQuery(
+					table,
+					() => this.#db,
+					this.#readyPromise,
+					this.#schema[table].columns,
+					this.#keyPaths[table],
+					this.#foreignKeys,
+					this.#hooks[table],
+					undefined,
 					transaction
 				);
 			},
+
+			restore: (table) => {
+				return this.#restoreQuery(table, transaction);
+			},
 		};
 
 		return new Promise<void>((resolve, reject) => {
@@ -430,7 +857,7 @@ export class Locality<
 				})
 				.catch((error) => {
 					// ! Callback threw an error - abort and reject immediately
-					transaction.abort();
+					_rollbackTransaction(transaction);
 					reject(error);
 				});
 		});
@@ -550,7 +977,13 @@ export class Locality<
 					>;
 
 					request.onsuccess = () => {
-						exportData[table] = request.result;
+						const storedSetFields = _getStoredSetFields(
+							this.#schema[table].columns
+						);
+
+						exportData[table] = request.result.map((row) =>
+							_restoreSets(row, storedSetFields)
+						);
 						res();
 					};
 
@@ -620,7 +1053,14 @@ export class Locality<
 
 		if (tablesToImport.length === 0) return;
 
-		const transaction = this.#db.transaction(tablesToImport, 'readwrite');
+		const transaction = this.#db.transaction(
+			_writeScope(
+				this.#db,
+				tablesToImport,
+				tablesToImport.map((table) => this.#hooks[table])
+			),
+			'readwrite'
+		);
 
 		return new Promise<void>((resolve, reject) => {
 			transaction.onabort = () => _abortTransaction(transaction.error, reject);
@@ -629,8 +1069,16 @@ export class Locality<
 			const tablePromises = tablesToImport.map(async (table) => {
 				const store = transaction.objectStore(table);
 				const rows = (dataMap[table] ?? []) as InferSelectType<Schema[TName]>[];
+				const storedSetFields = _getStoredSetFields(this.#schema[table].columns);
+				const hooks = this.#hooks[table];
+				const context: HookContext = { table, transaction };
 
 				if (mode === 'replace') {
+					_recordChanges(transaction, table, 'clear', null);
+					_logChanges(transaction, table, 'clear', [
+						{ key: null, before: null, after: null },
+					]);
+
 					await new Promise<void>((res, rej) => {
 						const clearRequest = store.clear();
 						clearRequest.onsuccess = () => res();
@@ -640,30 +1088,83 @@ export class Locality<
 
 				if (rows.length === 0) return;
 
-				const writePromises = rows.map((row) => {
-					return new Promise<void>((res, rej) => {
-						const prepared = validateAndPrepareData(
-							row,
-							this.#schema[table].columns,
-							this.#keyPaths[table],
-							table
-						);
+				// Multi-entry sets may come in as arrays (e.g. from JSON)
+				const hookedRows = await _runBeforeInsert(
+					hooks,
+					rows.map((row) => _restoreSets(row, storedSetFields)),
+					context
+				);
 
-						const request =
-							mode === 'upsert' ? store.put(prepared) : store.add(prepared);
+				const preparedRows = hookedRows.map((row) =>
+					validateAndPrepareData(
+						row,
+						this.#schema[table].columns,
+						this.#keyPaths[table],
+						table
+					)
+				);
 
-						request.onsuccess = () => res();
-						request.onerror = () => rej(request.error);
-					});
+				const isLogged = _isChangeLogEnabled(this.#db);
+
+				// Rows replaced by an upsert are logged as updates, with their previous image
+				const previousRows =
+					isLogged && mode === 'upsert' ?
+						await Promise.all(
+							preparedRows.map((row) => {
+								const key = _extractKey(row, store.keyPath as KeyPath);
+
+								return _isValidKey(key) ?
+										_settleRequest(
+											store.get(key) as IDBRequest<GenericObject>
+										)
+									:	undefined;
+							})
+						)
+					:	[];
+
+				const keys = await Promise.all(
+					preparedRows.map((prepared) =>
+						_settleRequest(
+							mode === 'upsert' ? store.put(prepared) : store.add(prepared)
+						)
+					)
+				);
+
+				_recordChanges(
+					transaction,
+					table,
+					mode === 'upsert' ? 'update' : 'insert',
+					keys
+				);
+
+				if (!hooks.afterInsert && !isLogged) return;
+
+				const stored = await Promise.all(
+					keys.map((key) =>
+						_settleRequest(store.get(key) as IDBRequest<GenericObject>)
+					)
+				);
+
+				stored.forEach((row, i) => {
+					const before = previousRows[i] ?? null;
+
+					_logChanges(transaction, table, before ? 'update' : 'insert', [
+						{ key: keys[i], before, after: row },
+					]);
 				});
 
-				await Promise.all(writePromises);
+				if (hooks.afterInsert) {
+					await hooks.afterInsert(
+						stored.map((row) => _restoreSets(row, storedSetFields)),
+						context
+					);
+				}
 			});
 
 			Promise.all(tablePromises)
 				.then(() => resolve())
 				.catch((err) => {
-					transaction.abort();
+					_rollbackTransaction(transaction);
 					reject(err);
 				});
 		});
@@ -676,7 +1177,10 @@ export class Locality<
 		const tables = Object.keys(this.#schema) as TName[];
 		if (tables.length === 0) return;
 
-		const transaction = this.#db.transaction(tables, 'readwrite');
+		const transaction = this.#db.transaction(
+			_writeScope(this.#db, tables, []),
+			'readwrite'
+		);
 
 		return new Promise<void>((resolve, reject) => {
 			transaction.onabort = () => _abortTransaction(transaction.error, reject);
@@ -686,6 +1190,10 @@ export class Locality<
 				return new Promise<void>((res, rej) => {
 					const store = transaction.objectStore(table);
 					const request = store.clear();
+					_recordChanges(transaction, table, 'clear', null);
+					_logChanges(transaction, table, 'clear', [
+						{ key: null, before: null, after: null },
+					]);
 					request.onsuccess = () => res();
 					request.onerror = () => rej(request.error);
 				});
@@ -714,15 +1222,19 @@ export class Locality<
 			throw new RangeError(`Table '${table}' does not exist in schema.`);
 		}
 
-		const nextStores = this.#buildStoresConfig().filter((store) => store.name !== table);
+		// Keep the current layout (including stores kept by the sync policy) except the table
+		const nextStores = _readStoreLayout(this.#db).filter((store) => store.name !== table);
 		const nextVersion = (this.version + 1) as Version;
 
 		this.#db.close();
 
-		this.#readyPromise = openDBWithStores(this.#name, nextStores, nextVersion)
+		this.#readyPromise = openDBWithStores(this.#name, nextStores, nextVersion, {
+			syncPolicy: 'destructive',
+			onBlocked: (event) => this.#emitVersionEvent('blocked', event),
+		})
 			.then((db) => {
-				this.#db = db;
-				const keyPaths = this.#keyPaths as Record<string, Maybe<string>>;
+				this.#connect(db);
+				const keyPaths = this.#keyPaths as Record<string, Maybe<KeyPath>>;
 				delete keyPaths[table];
 			})
 			.finally(() => {
@@ -0,0 +1,316 @@
+import { _logChanges } from './changelog';
+import { IsNullable, IsOptional, IsPrimaryKey, IsUnique, References } from './core';
+import { _extractKey, _isSameKeyPath, _settleRequest } from './helpers';
+import { _recordChanges } from './live';
+import { _formatValue, _isValidKey } from './planner';
+import { _distinctKeys, _keyId, _readByKeys } from './relations';
+import type { ForeignKey, GenericObject, KeyPath, Maybe, SchemaDefinition } from './types';
+
+/**
+ * Resolve the foreign keys declared with `references()` against the schema.
+ * @throws {RangeError} If a referenced column is not in the schema, is not a primary key or unique column, or `setNull` is used on a column that is neither nullable nor optional
+ */
+export function _resolveForeignKeys(schema: SchemaDefinition): ForeignKey[] {
+	const foreignKeys: ForeignKey[] = [];
+
+	for (const [table, { columns }] of Object.entries(schema)) {
+		for (const [column, col] of Object.entries(columns)) {
+			const config = col[References];
+
+			if (!config) continue;
+
+			const target = config.column();
+			const ref = _findColumn(schema, target);
+
+			if (!ref) {
+				throw new RangeError(
+					`Foreign key '${column}' of table "${table}" references a column that is not in the schema.`
+				);
+			}
+
+			const [refTable, refColumn] = ref;
+			const refColumns = Object.values(schema[refTable].columns);
+			const isSinglePk =
+				target[IsPrimaryKey] && refColumns.filter((c) => c[IsPrimaryKey]).length === 1;
+
+			if (!isSinglePk && !target[IsUnique]) {
+				throw new RangeError(
+					`Foreign key '${column}' of table "${table}" must reference a primary key or unique column, got '${refColumn}' of table "${refTable}".`
+				);
+			}
+
+			if (
+				config.onDelete === 'setNull' &&
+				(!(col[IsOptional] || col[IsNullable]) || col[IsPrimaryKey])
+			) {
+				throw new RangeError(
+					`Foreign key '${column}' of table "${table}" uses onDelete 'setNull', but the column is neither nullable nor optional.`
+				);
+			}
+
+			foreignKeys.push({
+				table,
+				column,
+				refTable,
+				refColumn,
+				onDelete: config.onDelete,
+				isNullable: col[IsNullable] ?? false,
+			});
+		}
+	}
+
+	return foreignKeys;
+}
+
+/** Find the table and name of a column instance in the schema */
+function _findColumn(schema: SchemaDefinition, target: unknown): [string, string] | null {
+	for (const [table, { columns }] of Object.entries(schema)) {
+		for (const [name, col] of Object.entries(columns)) {
+			if (col === target) return [table, name];
+		}
+	}
+
+	return null;
+}
+
+/** Tables referenced by the foreign keys of a table (read when checking parents) */
+export function _getParentTables(foreignKeys: readonly ForeignKey[], table: string): string[] {
+	return [
+		...new Set(foreignKeys.filter((fk) => fk.table === table).map((fk) => fk.refTable)),
+	];
+}
+
+/** Tables affected by the delete policies when deleting from a table (cascades are followed) */
+export function _getDependentTables(
+	foreignKeys: readonly ForeignKey[],
+	table: string
+): string[] {
+	const tables = new Set<string>();
+	const pending = [table];
+
+	while (pending.length > 0) {
+		const current = pending.pop() as string;
+
+		for (const fk of foreignKeys) {
+			if (fk.refTable !== current || tables.has(fk.table)) continue;
+
+			tables.add(fk.table);
+
+			if (fk.onDelete === 'cascade') pending.push(fk.table);
+		}
+	}
+
+	tables.delete(table);
+
+	return [...tables];
+}
+
+/**
+ * Ensure every foreign key value of the rows exists in the referenced table.
+ * - `undefined` and `null` values are not checked.
+ * - Must run in a transaction covering the tables from {@link _getParentTables}, after the rows are written (so parents written in the same batch are found).
+ *
+ * @throws {Error} If a referenced row does not exist
+ */
+export async function _checkParents(
+	transaction: IDBTransaction,
+	foreignKeys: readonly ForeignKey[],
+	table: string,
+	rows: readonly GenericObject[]
+): Promise<void> {
+	for (const fk of foreignKeys) {
+		if (fk.table !== table) continue;
+
+		const values = rows
+			.map((row): unknown => row[fk.column])
+			.filter((value) => value !== undefined && value !== null);
+
+		if (values.length === 0) continue;
+
+		const invalid = values.find((value) => !_isValidKey(value));
+		const keys = _distinctKeys(rows, fk.column);
+		const parents = await _readByKeys(transaction, fk.refTable, fk.refColumn, keys);
+		const found = new Set(parents.map((parent) => _keyId(parent[fk.refColumn])));
+		const missing =
+			invalid !== undefined ? invalid : keys.find((key) => !found.has(_keyId(key)));
+
+		if (missing !== undefined) {
+			throw new Error(
+				`Foreign key constraint failed on column '${fk.column}' of table "${table}": no row in "${fk.refTable}" has '${fk.refColumn}' = ${_formatValue(missing)}.`
+			);
+		}
+	}
+}
+
+/**
+ * Apply the delete policies of the foreign keys referencing rows about to be deleted.
+ * - `restrict` throws while referencing rows exist, `setNull` sets their value to `null` (or removes it from optional columns), `cascade` deletes them (recursively).
+ * - Referencing rows already being deleted are skipped, so cycles and self-references terminate.
+ * - Must run in a transaction covering the tables from {@link _getDependentTables}; the caller deletes the given rows itself.
+ *
+ * @throws {Error} If a `restrict` foreign key still references a row
+ */
+export async function _applyDeletePolicies(
+	transaction: IDBTransaction,
+	foreignKeys: readonly ForeignKey[],
+	table: string,
+	rows: readonly GenericObject[],
+	deleting = new Map<string, Set<unknown>>()
+): Promise<void> {
+	const keyPath = transaction.objectStore(table).keyPath as KeyPath;
+	const ids = deleting.get(table) ?? new Set<unknown>();
+
+	deleting.set(table, ids);
+
+	for (const row of rows) {
+		ids.add(_keyId(_extractKey(row, keyPath)));
+	}
+
+	for (const fk of foreignKeys) {
+		if (fk.refTable !== table) continue;
+
+		const store = transaction.objectStore(fk.table);
+		const childKeyPath = store.keyPath as KeyPath;
+
+		const children = (
+			await _readByKeys(
+				transaction,
+				fk.table,
+				fk.column,
+				_distinctKeys(rows, fk.refColumn)
+			)
+		).filter(
+			(child) => !deleting.get(fk.table)?.has(_keyId(_extractKey(child, childKeyPath)))
+		);
+
+		if (children.length === 0) continue;
+
+		if (fk.onDelete === 'restrict') {
+			throw new Error(
+				`Foreign key constraint failed on column '${fk.column}' of table "${fk.table}": cannot delete from "${table}" while ${children.length} row(s) reference it (onDelete: 'restrict').`
+			);
+		}
+
+		_recordChanges(
+			transaction,
+			fk.table,
+			fk.onDelete === 'setNull' ? 'update' : 'delete',
+			children.map((child) => _extractKey(child, childKeyPath))
+		);
+
+		if (fk.onDelete === 'setNull') {
+			const updated = children.map((child) => {
+				const { [fk.column]: _, ...rest } = child;
+
+				return fk.isNullable ? { ...rest, [fk.column]: null } : rest;
+			});
+
+			_logChanges(
+				transaction,
+				fk.table,
+				'update',
+				children.map((child, i) => ({
+					key: _extractKey(child, childKeyPath),
+					before: child,
+					after: updated[i],
+				}))
+			);
+
+			await Promise.all(updated.map((row) => _settleRequest(store.put(row))));
+
+			continue;
+		}
+
+		await _applyDeletePolicies(transaction, foreignKeys, fk.table, children, deleting);
+
+		_logChanges(
+			transaction,
+			fk.table,
+			'delete',
+			children.map((child) => ({
+				key: _extractKey(child, childKeyPath),
+				before: child,
+				after: null,
+			}))
+		);
+
+		await Promise.all(
+			children.map((child) =>
+				_settleRequest(store.delete(_extractKey(child, childKeyPath)))
+			)
+		);
+	}
+}
+
+/**
+ * Sources (the store for the primary key, or unique indexes) whose keys an insert checks for conflicts.
+ * - Without `target`, updates only check the primary key, other inserts also check every unique index.
+ * - Multi-entry indexes are never checked.
+ *
+ * @throws {RangeError} If `target` is neither the primary key nor a unique index
+ */
+export function _conflictSources(
+	store: IDBObjectStore,
+	target: Maybe<string>,
+	isUpdate: boolean
+): Array<IDBObjectStore | IDBIndex> {
+	if (target === undefined) {
+		const uniqueIndexes =
+			isUpdate ?
+				[]
+			:	Array.from(store.indexNames)
+					.map((name) => store.index(name))
+					.filter((index) => index.unique && !index.multiEntry);
+
+		return [store, ...uniqueIndexes];
+	}
+
+	if (_isSameKeyPath(store.keyPath, target)) return [store];
+
+	if (store.indexNames.contains(target)) {
+		const index = store.index(target);
+
+		if (index.unique && !index.multiEntry) return [index];
+	}
+
+	throw new RangeError(
+		`Conflict target '${target}' of table "${store.name}" must be the primary key or a unique index.`
+	);
+}
+
+/** Find the stored row a row conflicts with on one of the sources, if any (missing keys never conflict) */
+export async function _findConflict(
+	sources: ReadonlyArray<IDBObjectStore | IDBIndex>,
+	row: GenericObject
+): Promise<GenericObject | undefined> {
+	for (const source of sources) {
+		const key = _extractKey(row, source.keyPath as KeyPath);
+
+		if (!_isValidKey(key)) continue;
+
+		const existing = await _settleRequest(
+			source.get(key) as IDBRequest<GenericObject | undefined>
+		);
+
+		if (existing) return existing;
+	}
+}
+
+/** Tables plus every table their foreign key checks and delete policies touch (for a transaction scope) */
+export function _withConstraintTables(
+	foreignKeys: readonly ForeignKey[],
+	tables: readonly string[]
+): string[] {
+	const scope = new Set(tables);
+
+	for (const table of tables) {
+		for (const related of [
+			..._getParentTables(foreignKeys, table),
+			..._getDependentTables(foreignKeys, table),
+		]) {
+			scope.add(related);
+		}
+	}
+
+	return [...scope];
+}
@@ -1,5 +1,16 @@
 import { isNonEmptyString } from 'nhb-toolbox';
-import type { ColumnDefinition, TypeName, UpdaterFn, ValidatorFn } from './types';
+import type {
+	ColumnDefinition,
+	DefaultFn,
+	ForeignKeyConfig,
+	ForeignKeyOptions,
+	IndexDefinitionRecord,
+	IndexOptions,
+	TableOptions,
+	TypeName,
+	UpdaterFn,
+	ValidatorFn,
+} from './types';
 
 /** Symbol key for column data type */
 export const ColumnType = Symbol('ColumnType');
@@ -15,12 +26,16 @@ export const IsNullable = Symbol('IsNullable');
 export const IsIndexed = Symbol('IsIndexed');
 /** Symbol key for unique marker */
 export const IsUnique = Symbol('IsUnique');
+/** Symbol key for multi-entry index marker */
+export const IsMultiEntry = Symbol('IsMultiEntry');
 /** Symbol key for default value */
 export const DefaultValue = Symbol('DefaultValue');
 /** Symbol key for custom validation function */
 export const ValidateFn = Symbol('ValidateFn');
 /** Symbol key for on update marker */
 export const OnUpdate = Symbol('OnUpdate');
+/** Symbol key for foreign key reference */
+export const References = Symbol('References');
 
 /** @class Represents a column definition. */
 export class Column<T = any, TName extends TypeName = TypeName> {
@@ -31,9 +46,11 @@ export class Column<T = any, TName extends TypeName = TypeName> {
 	declare [IsNullable]?: boolean;
 	declare [IsIndexed]?: boolean;
 	declare [IsUnique]?: boolean;
-	declare [DefaultValue]?: T;
+	declare [IsMultiEntry]?: boolean;
+	declare [DefaultValue]?: T | null | DefaultFn<T | null>;
 	declare [ValidateFn]?: ValidatorFn<T>;
 	declare [OnUpdate]?: UpdaterFn<T>;
+	declare [References]?: ForeignKeyConfig;
 
 	constructor(type: TName) {
 		this[ColumnType] = type;
@@ -71,18 +88,79 @@ export class Column<T = any, TName extends TypeName = TypeName> {
 		};
 	}
 
-	/** @instance Marks column as indexed */
-	index() {
+	/**
+	 * @instance Marks column as indexed
+	 * @param options Optional index options
+	 *
+	 * @remarks
+	 * - With `multiEntry: true`, each element of an `array`, `list` or `set` column is indexed separately, so index queries match every row whose collection contains the queried value.
+	 * - Multi-entry index queries are typed on the element type, not the collection type.
+	 * - `set` values of multi-entry columns are stored as arrays (sets are not valid `IndexedDB` keys) and restored to `Set` when read.
+	 *
+	 * @example
+	 * tags: column.array<string>().index({ multiEntry: true })
+	 */
+	index<const O extends IndexOptions = {}>(options?: O) {
 		this[IsIndexed] = true;
-		return this as this & { [IsIndexed]: true };
+
+		if (options?.multiEntry) {
+			const colType = this[ColumnType];
+			const allowedTypes = ['array', 'list', 'set'] as TypeName[];
+
+			if (!allowedTypes.includes(colType)) {
+				throw new Error(
+					`multiEntry index can only be used with array, list or set columns, got: ${colType}`
+				);
+			}
+
+			this[IsMultiEntry] = true;
+		}
+
+		return this as this & { [IsIndexed]: true } & (O extends { multiEntry: true } ?
+				{ [IsMultiEntry]: true }
+			:	{});
 	}
 
-	/** @instance Sets default value for the column */
-	default<Default extends T>(value: Default) {
+	/**
+	 * @instance Sets default value for the column (`null` for nullable columns)
+	 * @param value - Static default value, or a generator function called on each insert
+	 *
+	 * @remarks
+	 * - A function is treated as a generator (see {@link $defaultFn()}). To store a function as the static default of a `custom` column, wrap it: `default(() => fn)`.
+	 *
+	 * @example
+	 * role: column.text().default('user')
+	 * token: column.uuid().default(() => uuidV4())
+	 * joinedAt: column.timestamp().default(() => getTimestamp())
+	 */
+	default<Default extends T | (this extends { [IsNullable]: true } ? null : never)>(
+		value: Default | DefaultFn<Default>
+	) {
 		this[DefaultValue] = value;
 		return this as this & { [DefaultValue]: Default };
 	}
 
+	/**
+	 * @instance Sets a generator function computing the default value on each insert
+	 * @param generator - Function receiving the row prepared so far and returning the value
+	 *
+	 * @remarks
+	 * - Called only when the value is omitted on insert, never on updates.
+	 * - The row holds the provided values plus the defaults of the columns declared before this one.
+	 * - Generated values are validated like provided ones.
+	 * - Functions taking other arguments, such as {@link uuidV4} and {@link getTimestamp}, must be wrapped so they are not called with the row.
+	 *
+	 * @example
+	 * id: column.text().pk().$defaultFn(() => uuidV4())
+	 * slug: column.text().$defaultFn((row) => String(row.title).toLowerCase().replace(/\s+/g, '-'))
+	 */
+	$defaultFn<Default extends T | (this extends { [IsNullable]: true } ? null : never)>(
+		generator: DefaultFn<Default>
+	) {
+		this[DefaultValue] = generator;
+		return this as this & { [DefaultValue]: Default };
+	}
+
 	/** @instance Marks column as optional */
 	optional() {
 		this[IsOptional] = true;
@@ -147,11 +225,53 @@ export class Column<T = any, TName extends TypeName = TypeName> {
 		return this as this & { [OnUpdate]: UpdaterFn<T> };
 	}
 
-	// TODO: Implement nullable support in the future
-	// nullable() {
-	// 	this[IsNullable] = true;
-	// 	return this as this & { [IsNullable]: true };
-	// }
+	/**
+	 * @instance Declares the column as a foreign key referencing a column of another table
+	 * @param column - Getter returning the referenced column (a primary key or unique column of a table in the same schema)
+	 * @param options - Foreign key options, e.g. the `onDelete` policy (defaults to `'restrict'`)
+	 *
+	 * @remarks
+	 * - Inserts and updates fail if no row of the referenced table holds the value. `undefined` values are not checked.
+	 * - Deleting referenced rows applies the `onDelete` policy (`'cascade'`, `'restrict'` or `'setNull'`) in the same transaction, so a failing policy rolls back the whole delete.
+	 * - `'setNull'` sets the value of referencing rows to `null`, so it requires a nullable column (or removes the value from an optional column).
+	 * - The getter is resolved lazily, so tables can reference tables declared later or themselves (annotate the getter's return type for self-references).
+	 *
+	 * @example
+	 * const users = table('users', {
+	 *   id: column.int().pk().auto(),
+	 *   name: column.text(),
+	 * });
+	 *
+	 * const posts = table('posts', {
+	 *   id: column.int().pk().auto(),
+	 *   userId: column.int().index().references(() => users.columns.id, { onDelete: 'cascade' }),
+	 * });
+	 *
+	 * const schema = defineSchema({ users, posts });
+	 */
+	references(column: () => Column<T, any>, options?: ForeignKeyOptions) {
+		this[References] = { column, onDelete: options?.onDelete ?? 'restrict' };
+		return this as this & { [References]: ForeignKeyConfig };
+	}
+
+	/**
+	 * @instance Marks column as nullable, accepting `null` besides values of its type
+	 *
+	 * @remarks
+	 * - Inferred select, insert and update types become `T | null`. The column stays required on insert unless it is also `optional()` or has a `default()`.
+	 * - Chain `default(null)` after `nullable()` to store `null` when the value is omitted.
+	 * - `null` is not a valid `IndexedDB` key: rows holding `null` are left out of the column's indexes (so `unique()` allows any number of them) and cannot be found through an index on it. Use `isNull()` to find them.
+	 * - Primary key columns cannot be nullable.
+	 * - Custom validators are not called for `null`.
+	 *
+	 * @example
+	 * deletedAt: column.timestamp().nullable().default(null)
+	 * nickname: column.text().nullable().unique()
+	 */
+	nullable() {
+		this[IsNullable] = true;
+		return this as this & { [IsNullable]: true };
+	}
 }
 
 /** @class Extends {@link Column} and represents a primary key column. */
@@ -167,8 +287,10 @@ export class PKColumn<T = any, TName extends TypeName = TypeName> extends Column
 		this[IsNullable] = column[IsNullable];
 		this[IsIndexed] = column[IsIndexed];
 		this[IsUnique] = column[IsUnique];
+		this[IsMultiEntry] = column[IsMultiEntry];
 		this[DefaultValue] = column[DefaultValue];
 		this[ValidateFn] = column[ValidateFn];
+		this[References] = column[References];
 	}
 
 	/** @instance Enables auto increment - only available for numeric columns */
@@ -188,12 +310,20 @@ export class PKColumn<T = any, TName extends TypeName = TypeName> extends Column
 }
 
 /** @class Represents a table definition. */
-export class Table<C extends ColumnDefinition = ColumnDefinition> {
+export class Table<
+	C extends ColumnDefinition = ColumnDefinition,
+	I extends IndexDefinitionRecord = {},
+	P extends readonly string[] = readonly string[],
+> {
 	readonly name: string;
 	readonly columns: C;
+	readonly indexes: I;
+	readonly options: TableOptions<I, C, P>;
 
-	constructor(name: string, columns: C) {
+	constructor(name: string, columns: C, options: TableOptions<I, C, P> = {}) {
 		this.name = name;
 		this.columns = columns;
+		this.indexes = options.indexes ?? ({} as I);
+		this.options = options;
 	}
 }
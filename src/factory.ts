@@ -1,22 +1,51 @@
 import { isNumber } from 'nhb-toolbox';
-import { _abortTransaction, _ensureIndexedDB } from './helpers';
-import type { StoreConfig } from './types';
+import { _abortTransaction, _ensureIndexedDB, _rollbackTransaction } from './helpers';
+import { _runMigrations } from './migrations';
+import { _assertSyncPolicy, _diffSchema, _writeStoredSchema } from './sync';
+import type { IndexConfig, OpenDBOptions, SchemaDiff, StoreConfig } from './types';
+
+/** Create an index of a store from its config */
+function _createIndex(objectStore: IDBObjectStore, index: IndexConfig) {
+	objectStore.createIndex(index.name, index.keyPath, {
+		unique: index.unique ?? false,
+		multiEntry: index.multiEntry ?? false,
+	});
+}
 
 /**
  * * Opens an `IndexedDB` database instance with the specified stores.
  * @param name Database name
  * @param stores Array of store configurations
  * @param version Database version (default is `undefined`)
+ * @param options Upgrade options: data `migrations`, `syncPolicy`, `onSchemaChange` hook, `trackSchema` and `onBlocked` callback (optional)
  * @returns Promise that resolves to the opened {@link IDBDatabase} instance.
+ *
+ * @remarks
+ * - On upgrade, the stores and indexes of the database are diffed against `stores` first. The diff is checked against the `syncPolicy` and passed to `onSchemaChange` before anything changes.
+ * - Added stores and indexes are created and changed indexes recreated. Stores and indexes removed from `stores` are only deleted with the `'destructive'` policy (default), which also recreates stores whose primary key changed (deleting their records).
+ * - When upgrading an existing database, migrations of the versions after the old version run in ascending order inside the `versionchange` transaction: after stores and indexes are created, before removed ones are deleted.
+ * - A policy violation, a throwing `onSchemaChange` or a failing migration aborts the upgrade, leaving the database at its old version.
+ * - With `trackSchema`, every upgrade stores a snapshot of the layout of `stores` in an internal metadata store.
  */
 export function openDBWithStores(
 	name: string,
 	stores: StoreConfig[],
-	version?: number
+	version?: number,
+	options: OpenDBOptions = {}
 ): Promise<IDBDatabase> {
+	const {
+		migrations,
+		syncPolicy = 'destructive',
+		onSchemaChange,
+		trackSchema,
+		onBlocked,
+	} = options;
+
 	return new Promise((resolve, reject) => {
 		_ensureIndexedDB();
 
+		let upgradeError: unknown;
+
 		const request = window.indexedDB.open(name, isNumber(version) ? version : undefined);
 
 		request.onupgradeneeded = (event) => {
@@ -25,58 +54,114 @@ export function openDBWithStores(
 			const transaction = $request.transaction;
 
 			if (transaction) {
-				const schemaStoreNames = new Set(stores.map((store) => store.name));
-
-				for (const store of stores) {
-					let objectStore: IDBObjectStore;
-
-					// Create object store if it doesn't exist
-					if (!db.objectStoreNames.contains(store.name)) {
-						objectStore = db.createObjectStore(store.name, {
-							keyPath: store.keyPath,
-							autoIncrement: store.autoIncrement,
-						});
-					} else {
-						// Get existing store from transaction for index updates
-						objectStore = transaction.objectStore(store.name);
-					}
+				transaction.onabort = () => _abortTransaction(transaction.error, reject);
+
+				const fail = (error: unknown) => {
+					upgradeError = error;
+					reject(error);
+					_rollbackTransaction(transaction);
+				};
 
-					const schemaIndexNames = new Set(
-						store.indexes ? store.indexes.map((idx) => idx.name) : []
-					);
+				let diff: SchemaDiff;
+
+				try {
+					diff = _diffSchema(db, transaction, stores, event.oldVersion);
+					_assertSyncPolicy(diff, syncPolicy);
+					onSchemaChange?.(diff);
+				} catch (error) {
+					fail(error);
+					return;
+				}
+
+				const storeConfigs = new Map(stores.map((store) => [store.name, store]));
+
+				// Changed stores only reach here with the 'destructive' policy
+				for (const storeName of diff.changedStores) {
+					db.deleteObjectStore(storeName);
+				}
+
+				// Create added (and recreated) object stores with their indexes
+				for (const storeName of [...diff.addedStores, ...diff.changedStores]) {
+					const store = storeConfigs.get(storeName) as StoreConfig;
+
+					const objectStore = db.createObjectStore(store.name, {
+						keyPath: store.keyPath,
+						autoIncrement: store.autoIncrement,
+					});
 
-					// Create or update indexes
 					for (const index of store.indexes ?? []) {
-						// Skip if index already exists
-						if (!objectStore.indexNames.contains(index.name)) {
-							objectStore.createIndex(index.name, index.keyPath, {
-								unique: index.unique ?? false,
-							});
-						}
+						_createIndex(objectStore, index);
 					}
+				}
 
-					// Remove indexes that are no longer in schema
-					for (let i = 0; i < objectStore.indexNames.length; i++) {
-						const existingIndexName = objectStore.indexNames.item(i);
+				// Create added indexes and recreate changed ones on existing stores
+				for (const { store, index } of [...diff.addedIndexes, ...diff.changedIndexes]) {
+					const objectStore = transaction.objectStore(store);
+					const config = storeConfigs
+						.get(store)
+						?.indexes?.find((idx) => idx.name === index) as IndexConfig;
 
-						if (existingIndexName && !schemaIndexNames.has(existingIndexName)) {
-							objectStore.deleteIndex(existingIndexName);
-						}
+					if (objectStore.indexNames.contains(index)) {
+						objectStore.deleteIndex(index);
 					}
+
+					_createIndex(objectStore, config);
+				}
+
+				if (trackSchema) {
+					_writeStoredSchema(db, transaction, stores);
 				}
 
-				// Remove object stores that are no longer in schema
-				for (const existingStore of Array.from(db.objectStoreNames)) {
-					if (!schemaStoreNames.has(existingStore)) {
-						db.deleteObjectStore(existingStore);
+				// Remove indexes and object stores that are no longer in schema
+				const removeStale = () => {
+					if (syncPolicy !== 'destructive') return;
+
+					for (const { store, index } of diff.removedIndexes) {
+						transaction.objectStore(store).deleteIndex(index);
 					}
+
+					for (const storeName of diff.removedStores) {
+						db.deleteObjectStore(storeName);
+					}
+				};
+
+				if (!migrations || event.oldVersion === 0) {
+					removeStale();
+					return;
 				}
 
-				transaction.onabort = () => _abortTransaction(transaction.error, reject);
+				let migrating = true;
+
+				// Stale stores are kept until the migrations, which may read them, are done
+				_runMigrations(transaction, migrations, event.oldVersion, db.version)
+					.then(() => {
+						migrating = false;
+						removeStale();
+					})
+					.catch(fail);
+
+				// Awaiting anything else than the migration context lets the transaction commit early
+				transaction.oncomplete = () => {
+					if (migrating) {
+						upgradeError = new Error(
+							'The upgrade transaction committed before the migrations finished. Only await operations of the migration context.'
+						);
+					}
+				};
 			}
 		};
 
-		request.onsuccess = () => resolve(request.result);
-		request.onerror = () => reject(request.error);
+		request.onsuccess = () => {
+			if (upgradeError) {
+				request.result.close();
+				reject(upgradeError);
+			} else {
+				resolve(request.result);
+			}
+		};
+
+		request.onerror = () => reject(upgradeError ?? request.error);
+
+		if (onBlocked) request.onblocked = onBlocked;
 	});
 }
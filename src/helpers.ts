@@ -1,4 +1,16 @@
-import type { RejectFn, UUID, UUIDVersion } from './types';
+import { isNotEmptyObject } from 'nhb-toolbox';
+import { ColumnType, IsMultiEntry } from './core';
+import type {
+	ColumnDefinition,
+	GenericObject,
+	KeyPath,
+	Maybe,
+	RejectFn,
+	SoftDeleteScope,
+	UUID,
+	UUIDVersion,
+	WhereClause,
+} from './types';
 
 /** Ensure UUID variant is RFC4122 compliant */
 function _hexVariant(hex: string): string {
@@ -23,6 +35,23 @@ export function _abortTransaction(error: DOMException | null, reject: RejectFn)
 	reject(error || new Error('IndexedDB transaction was aborted!'));
 }
 
+/** Roll back a transaction, ignoring one that has already finished or been aborted */
+export function _rollbackTransaction(transaction: IDBTransaction) {
+	try {
+		transaction.abort();
+	} catch {
+		// Already aborted (e.g. by a failed constraint) or committed
+	}
+}
+
+/** Wait for a request to succeed */
+export function _settleRequest<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
 /** Ensure `IndexedDB` is supported in the current environment */
 export function _ensureIndexedDB() {
 	if (!window.indexedDB) {
@@ -35,3 +64,134 @@ export async function _getDBList(): Promise<IDBDatabaseInfo[]> {
 	if (!('databases' in window.indexedDB)) return [];
 	return await window.indexedDB.databases();
 }
+
+/** Check if a field is part of the (single or composite) key path */
+export function _isKeyPathField(keyPath: Maybe<KeyPath>, field: PropertyKey): boolean {
+	return Array.isArray(keyPath) ? keyPath.includes(field as string) : keyPath === field;
+}
+
+/** Extract the key (single value or tuple for composite key paths) from a row */
+export function _extractKey(row: GenericObject, keyPath: KeyPath): IDBValidKey {
+	return Array.isArray(keyPath) ? keyPath.map((path) => row[path]) : row[keyPath];
+}
+
+/** Check if two key paths are the same */
+export function _isSameKeyPath(a: Maybe<KeyPath | null>, b: Maybe<KeyPath | null>): boolean {
+	if (Array.isArray(a) && Array.isArray(b)) {
+		return a.length === b.length && a.every((path, idx) => path === b[idx]);
+	}
+
+	return a === b;
+}
+
+/**
+ * Normalize an index query for the given key path.
+ * - A partial (prefix) tuple on a compound key path becomes a key range matching all keys with that prefix.
+ * - Any other query is returned as-is.
+ */
+export function _toKeyRange(
+	keyPath: Maybe<KeyPath | null>,
+	query: IDBKeyRange | IDBValidKey
+): IDBKeyRange | IDBValidKey {
+	if (Array.isArray(keyPath) && Array.isArray(query) && query.length < keyPath.length) {
+		// Arrays sort after every other key type, so `[...prefix, []]` is above all keys with the prefix
+		return IDBKeyRange.bound(query, [...query, []]);
+	}
+
+	return query;
+}
+
+/** Get the names of columns with multi-entry index */
+export function _getMultiEntryFields(columns: Maybe<ColumnDefinition>): string[] {
+	if (!columns) return [];
+
+	return Object.entries(columns)
+		.filter(([_, col]) => col[IsMultiEntry])
+		.map(([name]) => name);
+}
+
+/** Get the names of `set` columns with multi-entry index (stored as arrays) */
+export function _getStoredSetFields(columns: Maybe<ColumnDefinition>): string[] {
+	if (!columns) return [];
+
+	return Object.entries(columns)
+		.filter(([_, col]) => col[IsMultiEntry] && col[ColumnType] === 'set')
+		.map(([name]) => name);
+}
+
+/** Restore `set` values stored as arrays (for multi-entry indexes) back to `Set` */
+export function _restoreSets<T extends GenericObject>(row: T, fields: string[]): T {
+	if (!row || fields.length === 0) return row;
+
+	const restored: GenericObject = { ...row };
+
+	for (const field of fields) {
+		if (Array.isArray(restored[field])) {
+			restored[field] = new Set(restored[field]);
+		}
+	}
+
+	return restored as T;
+}
+
+/**
+ * Project a row based on selected fields
+ * - If any value is true: only fields marked as true
+ * - If all values are false: all fields EXCEPT those marked as false
+ */
+export function _projectRow<T extends GenericObject>(
+	row: T,
+	selection: Maybe<Partial<Record<string, boolean>> | null>
+): Partial<T> {
+	type Key = keyof T;
+
+	if (!isNotEmptyObject(selection)) return row;
+
+	const projected = {} as Partial<T>;
+
+	const selectionEntries = Object.entries(selection);
+	const selectionKeys = new Set(Object.keys(selection));
+
+	// Check if any value is true
+	const hasTrueValues = selectionEntries.some(([, value]) => value === true);
+
+	if (hasTrueValues) {
+		// Include only fields marked as true
+		for (const [key, value] of selectionEntries) {
+			if (value === true) {
+				projected[key as Key] = row[key];
+			}
+		}
+	} else {
+		// All are false: include all fields EXCEPT those marked as false
+		for (const key of Object.keys(row)) {
+			if (!selectionKeys.has(key) || selection[key] !== false) {
+				projected[key as Key] = row[key];
+			}
+		}
+	}
+
+	return projected;
+}
+
+/** Check if a row is soft-deleted (its soft delete column is stamped) */
+export function _isSoftDeleted(row: GenericObject, column: string): boolean {
+	return row[column] !== null && row[column] !== undefined;
+}
+
+/** Where clauses selecting the rows of a soft delete scope (none without soft delete column) */
+export function _softDeleteClauses<T extends GenericObject>(
+	column: Maybe<string>,
+	scope: SoftDeleteScope
+): WhereClause<T>[] {
+	if (!column || scope === 'include') return [];
+
+	const isNull = { op: 'isNull', field: column } as const;
+
+	return [
+		{
+			kind: 'condition',
+			condition: scope === 'only' ? { op: 'not', condition: isNull } : isNull,
+		},
+	];
+}
@@ -0,0 +1,66 @@
+import { isFunction, isObject } from 'nhb-toolbox';
+import { _CHANGES_STORE, _isChangeLogEnabled } from './changelog';
+import type { GenericObject, HookContext, TableHooks } from './types';
+
+/** Whether a table has any lifecycle hook */
+export function _hasHooks(hooks: TableHooks): boolean {
+	return Object.values(hooks).some(isFunction);
+}
+
+/**
+ * Scope of a write transaction.
+ * - If any written table has hooks, the transaction spans all stores, so hooks can reach any table.
+ * - If the connection logs its writes, the transaction includes the change log store.
+ */
+export function _writeScope(
+	db: IDBDatabase,
+	tables: string[],
+	hooks: readonly TableHooks[]
+): string[] {
+	const scope = hooks.some(_hasHooks) ? Array.from(db.objectStoreNames) : tables;
+
+	return _isChangeLogEnabled(db) && !scope.includes(_CHANGES_STORE) ?
+			[...scope, _CHANGES_STORE]
+		:	scope;
+}
+
+/** Run `beforeInsert` on each row in order, the returned row (if any) replaces it */
+export async function _runBeforeInsert(
+	hooks: TableHooks,
+	rows: readonly GenericObject[],
+	context: HookContext
+): Promise<GenericObject[]> {
+	if (!hooks.beforeInsert) return [...rows];
+
+	const result: GenericObject[] = [];
+
+	for (const row of rows) {
+		// Hooks get a copy, so the caller's objects are never mutated
+		const draft = { ...row };
+		const changed = await hooks.beforeInsert(draft, context);
+
+		result.push(isObject(changed) ? changed : draft);
+	}
+
+	return result;
+}
+
+/** Run `beforeUpdate` on each updated row in order, the returned row (if any) replaces it */
+export async function _runBeforeUpdate(
+	hooks: TableHooks,
+	rows: readonly GenericObject[],
+	currentRows: readonly GenericObject[],
+	context: HookContext
+): Promise<GenericObject[]> {
+	if (!hooks.beforeUpdate) return [...rows];
+
+	const result: GenericObject[] = [];
+
+	for (const [i, row] of rows.entries()) {
+		const changed = await hooks.beforeUpdate(row, currentRows[i], context);
+
+		result.push(isObject(changed) ? changed : row);
+	}
+
+	return result;
+}
@@ -1,11 +1,29 @@
 export type * from './types';
 
 // ! Export only class types to avoid unexpected side effects
+export type { ChangeLog } from './changelog';
 export type { Column, PKColumn, Table } from './core';
 
 export { Locality } from './client';
 export { openDBWithStores } from './factory';
-export { column, defineSchema, table } from './schema';
+export {
+	and,
+	between,
+	eq,
+	gt,
+	gte,
+	ilike,
+	inArray,
+	isNull,
+	like,
+	lt,
+	lte,
+	ne,
+	not,
+	or,
+} from './operators';
+export { relations } from './relations';
+export { column, defineSchema, index, table, unique } from './schema';
 export { deleteDB, getTimestamp, isEmail, isTimestamp, isURL, isUUID, uuidV4 } from './utils';
 export { validateColumnType } from './validators';
 
@@ -15,10 +33,12 @@ export {
 	DefaultValue,
 	IsAutoInc,
 	IsIndexed,
+	IsMultiEntry,
 	IsNullable,
 	IsOptional,
 	IsPrimaryKey,
 	IsUnique,
 	OnUpdate,
+	References,
 	ValidateFn,
 } from './core';
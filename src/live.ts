@@ -0,0 +1,126 @@
+import type { ChangeEvent, ChangeListener, ChangeOp, ChangeSet } from './types';
+
+/** Listeners of committed changes, per database name */
+const listeners = new Map<string, Set<ChangeListener>>();
+
+/** Changes recorded by transactions that have not committed yet */
+const pending = new WeakMap<IDBTransaction, ChangeSet>();
+
+/** Channels publishing committed changes to other tabs, per database name, with the number of users */
+const channels = new Map<string, { channel: BroadcastChannel; users: number }>();
+
+/** Notify the listeners of a database */
+function _emitChanges(dbName: string, event: ChangeEvent) {
+	for (const listener of [...(listeners.get(dbName) ?? [])]) {
+		listener(event);
+	}
+}
+
+/**
+ * Listen to the changes committed to a database, in this context and (through an open channel) in other tabs.
+ * @returns A function removing the listener
+ */
+export function _onChanges(dbName: string, listener: ChangeListener): () => void {
+	let dbListeners = listeners.get(dbName);
+
+	if (!dbListeners) {
+		dbListeners = new Set();
+		listeners.set(dbName, dbListeners);
+	}
+
+	dbListeners.add(listener);
+
+	return () => {
+		dbListeners.delete(listener);
+
+		if (dbListeners.size === 0 && listeners.get(dbName) === dbListeners) {
+			listeners.delete(dbName);
+		}
+	};
+}
+
+/**
+ * Open (or share) the `BroadcastChannel` named after a database, exchanging committed changes with other tabs.
+ * - Does nothing where `BroadcastChannel` is not supported.
+ * @returns A function releasing the channel, closed once released by all its users
+ */
+export function _openChannel(dbName: string): () => void {
+	if (typeof BroadcastChannel === 'undefined') return () => {};
+
+	let entry = channels.get(dbName);
+
+	if (!entry) {
+		const channel = new BroadcastChannel(dbName);
+
+		channel.onmessage = (event: MessageEvent<ChangeSet>) => {
+			_emitChanges(dbName, { changes: event.data, remote: true });
+		};
+
+		// Don't keep Node.js processes (e.g. tests with an `IndexedDB` shim) alive
+		(channel as { unref?: () => void }).unref?.();
+
+		entry = { channel, users: 0 };
+		channels.set(dbName, entry);
+	}
+
+	const opened = entry;
+	let released = false;
+
+	opened.users++;
+
+	return () => {
+		if (released) return;
+
+		released = true;
+		opened.users--;
+
+		if (opened.users === 0 && channels.get(dbName) === opened) {
+			opened.channel.close();
+			channels.delete(dbName);
+		}
+	};
+}
+
+/**
+ * Record the primary keys written to a table by a transaction.
+ * - `null` keys mark the whole table as changed (e.g. cleared).
+ * - Changes are batched per transaction: once it commits, listeners are notified once and the change set is published to other tabs. Aborted transactions notify nothing.
+ */
+export function _recordChanges(
+	transaction: IDBTransaction,
+	table: string,
+	op: ChangeOp,
+	keys: IDBValidKey[] | null
+) {
+	let changes = pending.get(transaction);
+
+	if (!changes) {
+		const recorded: ChangeSet = [];
+
+		changes = recorded;
+		pending.set(transaction, recorded);
+
+		transaction.addEventListener('complete', () => {
+			const dbName = transaction.db.name;
+
+			pending.delete(transaction);
+
+			channels.get(dbName)?.channel.postMessage(recorded);
+			_emitChanges(dbName, { changes: recorded, remote: false });
+		});
+	}
+
+	const last = changes.at(-1);
+
+	// Consecutive writes of the same kind to a table are merged
+	if (last?.table === table && last.op === op) {
+		last.keys = keys === null || last.keys === null ? null : [...last.keys, ...keys];
+	} else {
+		changes.push({ table, op, keys });
+	}
+}
+
+/** Whether a key lies in a key range (or equals a single key) */
+export function _isKeyInRange(range: IDBKeyRange | IDBValidKey, key: IDBValidKey): boolean {
+	return range instanceof IDBKeyRange ? range.includes(key) : indexedDB.cmp(range, key) === 0;
+}
@@ -0,0 +1,128 @@
+import { isFunction } from 'nhb-toolbox';
+import { _settleRequest } from './helpers';
+import type { GenericObject, MigrationContext, MigrationRecord } from './types';
+
+/**
+ * Ensure migration versions are integers within the database version and steps are functions.
+ * @throws {RangeError} If a version is not a positive integer or exceeds the database version
+ * @throws {TypeError} If a migration is not a function
+ */
+export function _validateMigrations(migrations: MigrationRecord, version: number): void {
+	for (const [key, migration] of Object.entries(migrations)) {
+		const step = Number(key);
+
+		if (!Number.isInteger(step) || step < 1) {
+			throw new RangeError(`Migration version '${key}' must be a positive integer.`);
+		}
+
+		if (step > version) {
+			throw new RangeError(
+				`Migration version ${step} is greater than the database version ${version}.`
+			);
+		}
+
+		if (!isFunction(migration)) {
+			throw new TypeError(`Migration for version ${step} must be a function.`);
+		}
+	}
+}
+
+/** Create the upgrade context of a migration step, bound to the `versionchange` transaction */
+function _createMigrationContext(
+	transaction: IDBTransaction,
+	oldVersion: number,
+	newVersion: number,
+	version: number
+): MigrationContext {
+	const update: MigrationContext['update'] = (table, updater) => {
+		return new Promise((resolve, reject) => {
+			const request = transaction.objectStore(table).openCursor();
+
+			let count = 0;
+
+			request.onsuccess = () => {
+				const cursor = request.result;
+
+				if (!cursor) {
+					resolve(count);
+					return;
+				}
+
+				try {
+					const record = updater(cursor.value as GenericObject);
+
+					if (record === null) {
+						cursor.delete();
+						count++;
+					} else if (record !== undefined) {
+						cursor.update(record);
+						count++;
+					}
+
+					cursor.continue();
+				} catch (error) {
+					reject(error);
+				}
+			};
+
+			request.onerror = () => reject(request.error);
+		});
+	};
+
+	return {
+		oldVersion,
+		newVersion,
+		version,
+		transaction,
+		getAll: async (table) => {
+			return _settleRequest(
+				transaction.objectStore(table).getAll() as IDBRequest<GenericObject[]>
+			);
+		},
+		put: async (table, record) =>
+			_settleRequest(transaction.objectStore(table).put(record)),
+		delete: async (table, key) =>
+			_settleRequest(transaction.objectStore(table).delete(key)),
+		clear: async (table) => _settleRequest(transaction.objectStore(table).clear()),
+		update,
+		renameField: (table, from, to) => {
+			return update(table, (record) => {
+				if (!(from in record)) return undefined;
+
+				const { [from]: value, ...rest } = record;
+
+				return { ...rest, [to]: value };
+			});
+		},
+	};
+}
+
+/**
+ * Run the migrations of the versions after `oldVersion` up to `newVersion`, in ascending order.
+ * - Must run inside the `versionchange` transaction; the caller aborts it when a step fails.
+ *
+ * @throws {Error} If a migration step fails (the original error is the `cause`)
+ */
+export async function _runMigrations(
+	transaction: IDBTransaction,
+	migrations: MigrationRecord,
+	oldVersion: number,
+	newVersion: number
+): Promise<void> {
+	const steps = Object.keys(migrations)
+		.map(Number)
+		.filter((step) => step > oldVersion && step <= newVersion)
+		.sort((a, b) => a - b);
+
+	for (const step of steps) {
+		try {
+			await migrations[step](
+				_createMigrationContext(transaction, oldVersion, newVersion, step)
+			);
+		} catch (error) {
+			const reason = error instanceof Error ? error.message : String(error);
+
+			throw new Error(`Migration to version ${step} failed: ${reason}`, { cause: error });
+		}
+	}
+}
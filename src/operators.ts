@@ -0,0 +1,219 @@
+import type { $ConditionRow, $ConditionRows, $ConditionShape, QueryCondition } from './types';
+
+/**
+ * * Match rows where a field equals a value
+ * @param field Column name
+ * @param value Value to compare with
+ *
+ * @remarks For multi-entry indexed columns, matches rows where any element equals the value.
+ *
+ * @example
+ * const admins = await db.from('users').where(eq('role', 'admin')).findAll();
+ */
+export function eq<K extends string, V>(
+	field: K,
+	value: V
+): QueryCondition<$ConditionRow<K, V>> {
+	return { op: 'eq', field, value };
+}
+
+/**
+ * * Match rows where a field does not equal a value
+ * @param field Column name
+ * @param value Value to compare with
+ *
+ * @example
+ * const others = await db.from('users').where(ne('role', 'admin')).findAll();
+ */
+export function ne<K extends string, V>(
+	field: K,
+	value: V
+): QueryCondition<$ConditionRow<K, V>> {
+	return { op: 'ne', field, value };
+}
+
+/**
+ * * Match rows where a field is greater than a value
+ * @param field Column name
+ * @param value Lower bound (exclusive)
+ *
+ * @example
+ * const adults = await db.from('users').where(gt('age', 17)).findAll();
+ */
+export function gt<K extends string, V>(
+	field: K,
+	value: V
+): QueryCondition<$ConditionRow<K, V>> {
+	return { op: 'gt', field, value };
+}
+
+/**
+ * * Match rows where a field is greater than or equal to a value
+ * @param field Column name
+ * @param value Lower bound (inclusive)
+ *
+ * @example
+ * const adults = await db.from('users').where(gte('age', 18)).findAll();
+ */
+export function gte<K extends string, V>(
+	field: K,
+	value: V
+): QueryCondition<$ConditionRow<K, V>> {
+	return { op: 'gte', field, value };
+}
+
+/**
+ * * Match rows where a field is less than a value
+ * @param field Column name
+ * @param value Upper bound (exclusive)
+ *
+ * @example
+ * const minors = await db.from('users').where(lt('age', 18)).findAll();
+ */
+export function lt<K extends string, V>(
+	field: K,
+	value: V
+): QueryCondition<$ConditionRow<K, V>> {
+	return { op: 'lt', field, value };
+}
+
+/**
+ * * Match rows where a field is less than or equal to a value
+ * @param field Column name
+ * @param value Upper bound (inclusive)
+ *
+ * @example
+ * const minors = await db.from('users').where(lte('age', 17)).findAll();
+ */
+export function lte<K extends string, V>(
+	field: K,
+	value: V
+): QueryCondition<$ConditionRow<K, V>> {
+	return { op: 'lte', field, value };
+}
+
+/**
+ * * Match rows where a field is between two values (both inclusive)
+ * @param field Column name
+ * @param min Lower bound (inclusive)
+ * @param max Upper bound (inclusive)
+ *
+ * @example
+ * const thirties = await db.from('users').where(between('age', 30, 39)).findAll();
+ */
+export function between<K extends string, V>(
+	field: K,
+	min: V,
+	max: V
+): QueryCondition<$ConditionRow<K, V>> {
+	return { op: 'between', field, min, max };
+}
+
+/**
+ * * Match rows where a field equals one of the given values
+ * @param field Column name
+ * @param values Values to compare with
+ *
+ * @remarks An empty list matches no rows.
+ *
+ * @example
+ * const staff = await db.from('users').where(inArray('role', ['admin', 'editor'])).findAll();
+ */
+export function inArray<K extends string, V>(
+	field: K,
+	values: readonly V[]
+): QueryCondition<$ConditionRow<K, V>> {
+	return { op: 'inArray', field, values };
+}
+
+/**
+ * * Match rows where a string field matches a SQL `LIKE` pattern
+ * @param field Column name
+ * @param pattern Pattern where `%` matches any sequence of characters and `_` matches a single character
+ *
+ * @remarks
+ * - Matching is case-sensitive.
+ * - A pattern with a literal prefix (e.g. `'Ali%'`) can use an index on the field.
+ *
+ * @example
+ * const aliases = await db.from('users').where(like('name', 'Ali%')).findAll();
+ */
+export function like<K extends string>(
+	field: K,
+	pattern: string
+): QueryCondition<$ConditionRow<K, string>> {
+	return { op: 'like', field, pattern };
+}
+
+/**
+ * * Match rows where a string field matches a SQL `LIKE` pattern, ignoring case
+ * @param field Column name
+ * @param pattern Pattern where `%` matches any sequence of characters and `_` matches a single character
+ *
+ * @remarks Index keys are case-sensitive, so the pattern is always checked in memory.
+ *
+ * @example
+ * const aliases = await db.from('users').where(ilike('name', 'ali%')).findAll();
+ */
+export function ilike<K extends string>(
+	field: K,
+	pattern: string
+): QueryCondition<$ConditionRow<K, string>> {
+	return { op: 'ilike', field, pattern };
+}
+
+/**
+ * * Match rows where a field is `null` or `undefined`
+ * @param field Column name
+ *
+ * @example
+ * const unverified = await db.from('users').where(isNull('verifiedAt')).findAll();
+ */
+export function isNull<K extends string>(field: K): QueryCondition<$ConditionRow<K, unknown>> {
+	return { op: 'isNull', field };
+}
+
+/**
+ * * Match rows satisfying all given conditions
+ * @param conditions Conditions to combine
+ *
+ * @example
+ * const result = await db
+ *   .from('users')
+ *   .where(and(eq('role', 'admin'), gte('age', 18)))
+ *   .findAll();
+ */
+export function and<const C extends readonly QueryCondition[]>(
+	...conditions: C
+): QueryCondition<$ConditionRows<C>> {
+	return { op: 'and', conditions };
+}
+
+/**
+ * * Match rows satisfying at least one of the given conditions
+ * @param conditions Conditions to combine
+ *
+ * @example
+ * const result = await db
+ *   .from('users')
+ *   .where(or(eq('role', 'admin'), lt('age', 18)))
+ *   .findAll();
+ */
+export function or<const C extends readonly QueryCondition[]>(
+	...conditions: C
+): QueryCondition<$ConditionRows<C>> {
+	return { op: 'or', conditions };
+}
+
+/**
+ * * Match rows not satisfying a condition
+ * @param condition Condition to negate
+ *
+ * @example
+ * const result = await db.from('users').where(not(isNull('verifiedAt'))).findAll();
+ */
+export function not<C extends QueryCondition>(
+	condition: C
+): QueryCondition<$ConditionShape<C>> {
+	return { op: 'not', condition };
+}
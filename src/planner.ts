@@ -0,0 +1,619 @@
+import { isNonEmptyString, isUndefined } from 'nhb-toolbox';
+import { _extractKey, _isSameKeyPath, _toKeyRange } from './helpers';
+import type {
+	ConditionNode,
+	GenericObject,
+	KeyPath,
+	QueryAccess,
+	QueryExplanation,
+	QueryPlan,
+	WhereClause,
+	WherePredicate,
+} from './types';
+
+/** Bound of a key range being built */
+type Bound = { value: IDBValidKey; open: boolean };
+
+/** Check if a value is a valid `IndexedDB` key */
+export function _isValidKey(value: unknown): value is IDBValidKey {
+	if (typeof value === 'number') return !Number.isNaN(value);
+	if (typeof value === 'string') return true;
+	if (value instanceof Date) return !Number.isNaN(value.getTime());
+	if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) return true;
+	if (Array.isArray(value)) return value.every(_isValidKey);
+
+	return false;
+}
+
+/**
+ * Compare two values in `IndexedDB` key order.
+ * - Returns `NaN` if the values are not comparable.
+ */
+export function _compare(a: unknown, b: unknown): number {
+	if (_isValidKey(a) && _isValidKey(b)) return indexedDB.cmp(a, b);
+
+	if (typeof a === typeof b && (typeof a === 'boolean' || typeof a === 'bigint')) {
+		return (
+			a < (b as typeof a) ? -1
+			: a > (b as typeof a) ? 1
+			: 0
+		);
+	}
+
+	return NaN;
+}
+
+/** Check if two values are equal (keys by `IndexedDB` key order, others by identity) */
+export function _isEqual(a: unknown, b: unknown): boolean {
+	if (_isValidKey(a) && _isValidKey(b)) return indexedDB.cmp(a, b) === 0;
+
+	return a === b;
+}
+
+/** Convert a SQL `LIKE` pattern to a regular expression (case-insensitive for `ILIKE`) */
+function _likeToRegExp(pattern: string, ignoreCase = false): RegExp {
+	const source = pattern
+		.split('')
+		.map((char) => {
+			if (char === '%') return '.*';
+			if (char === '_') return '.';
+			return char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+		})
+		.join('');
+
+	return new RegExp(`^${source}$`, ignoreCase ? 'is' : 's');
+}
+
+/** Get the literal prefix of a `LIKE` pattern (before the first wildcard) */
+function _likePrefix(pattern: string): string {
+	const wildcard = pattern.search(/[%_]/);
+
+	return wildcard === -1 ? pattern : pattern.slice(0, wildcard);
+}
+
+/** Build a single-value test for a field condition */
+function _compileTest(node: ConditionNode): (value: unknown) => boolean {
+	switch (node.op) {
+		case 'eq':
+		case 'ne':
+			return (value) => _isEqual(value, node.value);
+		case 'gt':
+			return (value) => _compare(value, node.value) > 0;
+		case 'gte':
+			return (value) => _compare(value, node.value) >= 0;
+		case 'lt':
+			return (value) => _compare(value, node.value) < 0;
+		case 'lte':
+			return (value) => _compare(value, node.value) <= 0;
+		case 'between':
+			return (value) => _compare(value, node.min) >= 0 && _compare(value, node.max) <= 0;
+		case 'inArray':
+			return (value) => node.values.some((item) => _isEqual(value, item));
+		case 'like':
+		case 'ilike': {
+			const regex = _likeToRegExp(node.pattern, node.op === 'ilike');
+			return (value) => typeof value === 'string' && regex.test(value);
+		}
+		default:
+			return () => false;
+	}
+}
+
+/**
+ * Compile a condition tree into a row predicate.
+ * - Conditions on multi-entry fields match if any element of the collection matches.
+ * - `ne` is the negation of `eq`, so on multi-entry fields it matches if no element equals the value.
+ */
+function _compileCondition<T extends GenericObject>(
+	node: ConditionNode,
+	multiEntryFields: readonly string[]
+): WherePredicate<T> {
+	switch (node.op) {
+		case 'and': {
+			const predicates = node.conditions.map((c) =>
+				_compileCondition<T>(c, multiEntryFields)
+			);
+			return (row) => predicates.every((predicate) => predicate(row));
+		}
+		case 'or': {
+			const predicates = node.conditions.map((c) =>
+				_compileCondition<T>(c, multiEntryFields)
+			);
+			return (row) => predicates.some((predicate) => predicate(row));
+		}
+		case 'not': {
+			const predicate = _compileCondition<T>(node.condition, multiEntryFields);
+			return (row) => !predicate(row);
+		}
+		case 'isNull':
+			return (row) => row[node.field] === null || row[node.field] === undefined;
+		default: {
+			const { field } = node;
+			const test = _compileTest(node);
+			const isMultiEntry = multiEntryFields.includes(field);
+
+			const matches = (row: T) => {
+				const value: unknown = row[field];
+
+				if (isMultiEntry && (Array.isArray(value) || value instanceof Set)) {
+					return [...value].some(test);
+				}
+
+				return test(value);
+			};
+
+			return node.op === 'ne' ? (row) => !matches(row) : matches;
+		}
+	}
+}
+
+/** Flatten nested `and` conditions into a list of conjuncts */
+function _flattenAnd(node: ConditionNode): ConditionNode[] {
+	return node.op === 'and' ? node.conditions.flatMap(_flattenAnd) : [node];
+}
+
+/** Narrow the lower bound of a range (higher value wins, exclusive wins on tie) */
+function _narrowLower(current: Bound | undefined, next: Bound): Bound {
+	if (!current) return next;
+
+	const cmp = indexedDB.cmp(next.value, current.value);
+
+	if (cmp > 0 || (cmp === 0 && next.open)) return next;
+
+	return current;
+}
+
+/** Narrow the upper bound of a range (lower value wins, exclusive wins on tie) */
+function _narrowUpper(current: Bound | undefined, next: Bound): Bound {
+	if (!current) return next;
+
+	const cmp = indexedDB.cmp(next.value, current.value);
+
+	if (cmp < 0 || (cmp === 0 && next.open)) return next;
+
+	return current;
+}
+
+/** Key range built from the conjuncts on one field */
+type FieldRange = {
+	range: IDBKeyRange;
+	/** Conjuncts fully enforced by the range (no in-memory check needed) */
+	covered: ConditionNode[];
+};
+
+/** Access path candidate for the planner */
+type Candidate = {
+	source: IDBObjectStore | IDBIndex;
+	range: IDBKeyRange | IDBValidKey;
+	access: Exclude<QueryAccess, 'fullScan'>;
+	/** Whether the candidate reads a single key */
+	isEquality: boolean;
+	/** Clauses or conjuncts enforced by reading the candidate range */
+	covered: ReadonlyArray<WhereClause<GenericObject> | ConditionNode>;
+};
+
+/**
+ * Build a key range on a field from the conjuncts that reference it.
+ * - Multi-entry indexes only use `eq` (a range would return a row once per matching element).
+ * - Returns `null` if no conjunct can narrow the range.
+ */
+function _buildKeyRange(conjuncts: ConditionNode[], isMultiEntry: boolean): FieldRange | null {
+	let lower: Bound | undefined;
+	let upper: Bound | undefined;
+
+	const covered: ConditionNode[] = [];
+
+	for (const node of conjuncts) {
+		switch (node.op) {
+			case 'eq':
+				if (!_isValidKey(node.value)) break;
+				if (isMultiEntry)
+					return { range: IDBKeyRange.only(node.value), covered: [node] };
+				lower = _narrowLower(lower, { value: node.value, open: false });
+				upper = _narrowUpper(upper, { value: node.value, open: false });
+				covered.push(node);
+				break;
+			case 'gt':
+			case 'gte':
+				if (isMultiEntry || !_isValidKey(node.value)) break;
+				lower = _narrowLower(lower, { value: node.value, open: node.op === 'gt' });
+				covered.push(node);
+				break;
+			case 'lt':
+			case 'lte':
+				if (isMultiEntry || !_isValidKey(node.value)) break;
+				upper = _narrowUpper(upper, { value: node.value, open: node.op === 'lt' });
+				covered.push(node);
+				break;
+			case 'between':
+				if (isMultiEntry || !_isValidKey(node.min) || !_isValidKey(node.max)) break;
+				lower = _narrowLower(lower, { value: node.min, open: false });
+				upper = _narrowUpper(upper, { value: node.max, open: false });
+				covered.push(node);
+				break;
+			case 'inArray': {
+				if (isMultiEntry || node.values.length === 0) break;
+				if (!node.values.every(_isValidKey)) break;
+
+				const sorted = [...(node.values as IDBValidKey[])].sort((a, b) =>
+					indexedDB.cmp(a, b)
+				);
+
+				// Only narrows to min-max: membership is still checked in memory
+				lower = _narrowLower(lower, { value: sorted[0], open: false });
+				upper = _narrowUpper(upper, { value: sorted[sorted.length - 1], open: false });
+				break;
+			}
+			case 'like': {
+				const prefix = _likePrefix(node.pattern);
+				const lastCode = prefix.charCodeAt(prefix.length - 1);
+
+				if (isMultiEntry || !isNonEmptyString(prefix) || lastCode === 0xffff) break;
+
+				// Every string starting with the prefix sorts below the prefix with its last char incremented
+				const next = prefix.slice(0, -1) + String.fromCharCode(lastCode + 1);
+
+				// Only narrows to the prefix: the pattern is still checked in memory
+				lower = _narrowLower(lower, { value: prefix, open: false });
+				upper = _narrowUpper(upper, { value: next, open: true });
+				break;
+			}
+		}
+	}
+
+	if (lower && upper) {
+		const cmp = indexedDB.cmp(lower.value, upper.value);
+
+		// Contradicting bounds: leave it to the in-memory filter
+		if (cmp > 0 || (cmp === 0 && (lower.open || upper.open))) return null;
+
+		const range =
+			cmp === 0 ?
+				IDBKeyRange.only(lower.value)
+			:	IDBKeyRange.bound(lower.value, upper.value, lower.open, upper.open);
+
+		return { range, covered };
+	}
+
+	if (lower) return { range: IDBKeyRange.lowerBound(lower.value, lower.open), covered };
+	if (upper) return { range: IDBKeyRange.upperBound(upper.value, upper.open), covered };
+
+	return null;
+}
+
+/** Find the primary key or a single-field index on the store for a field */
+export function _findSource(
+	store: IDBObjectStore,
+	field: string
+): IDBObjectStore | IDBIndex | null {
+	if (store.keyPath === field) return store;
+
+	for (const name of Array.from(store.indexNames)) {
+		const index = store.index(name);
+
+		if (index.keyPath === field) return index;
+	}
+
+	return null;
+}
+
+/** Resolve the primary key or index of an index clause, throws if it does not exist */
+function _resolveSource(store: IDBObjectStore, index: KeyPath): IDBObjectStore | IDBIndex {
+	if (_isSameKeyPath(store.keyPath, index)) return store;
+
+	if (isNonEmptyString(index) && store.indexNames.contains(index)) {
+		return store.index(index);
+	}
+
+	throw new RangeError(`Index '${index}' does not exist on table '${store.name}'`);
+}
+
+/** Get the access kind of a source */
+function _getAccess(store: IDBObjectStore, source: IDBObjectStore | IDBIndex) {
+	if (source === store) return 'primaryKey';
+
+	return (source as IDBIndex).unique ? 'uniqueIndex' : 'index';
+}
+
+/** Check if a key range reads a single key */
+function _isSingleKey(range: IDBKeyRange | IDBValidKey): boolean {
+	if (!(range instanceof IDBKeyRange)) return true;
+
+	return (
+		!isUndefined(range.lower) &&
+		!isUndefined(range.upper) &&
+		indexedDB.cmp(range.lower, range.upper) === 0
+	);
+}
+
+/** Build an in-memory check for an index clause (used when another access path is chosen) */
+function _compileIndexClause<T extends GenericObject>(
+	source: IDBObjectStore | IDBIndex,
+	query: IDBKeyRange | IDBValidKey
+): WherePredicate<T> {
+	const keyPath = source.keyPath as KeyPath;
+	const range = _toKeyRange(keyPath, query);
+	const keyRange = range instanceof IDBKeyRange ? range : IDBKeyRange.only(range);
+	const isMultiEntry = 'multiEntry' in source && source.multiEntry;
+
+	return (row) => {
+		const key: unknown = _extractKey(row, keyPath);
+		const keys =
+			isMultiEntry && (Array.isArray(key) || key instanceof Set) ? [...key] : [key];
+
+		return keys.some((k) => _isValidKey(k) && keyRange.includes(k));
+	};
+}
+
+/** Format a value for plan descriptions */
+export function _formatValue(value: unknown): string {
+	if (value instanceof Date) return value.toISOString();
+	if (typeof value === 'bigint') return `${value}n`;
+
+	return JSON.stringify(value) ?? String(value);
+}
+
+/** Describe a key or key range for plan descriptions */
+function _describeRange(range: IDBKeyRange | IDBValidKey): string {
+	if (!(range instanceof IDBKeyRange)) return `= ${_formatValue(range)}`;
+
+	if (_isSingleKey(range)) return `= ${_formatValue(range.lower)}`;
+
+	const lower =
+		isUndefined(range.lower) ? '' : (
+			`${range.lowerOpen ? '>' : '>='} ${_formatValue(range.lower)}`
+		);
+	const upper =
+		isUndefined(range.upper) ? '' : (
+			`${range.upperOpen ? '<' : '<='} ${_formatValue(range.upper)}`
+		);
+
+	return [lower, upper].filter(Boolean).join(' AND ');
+}
+
+/** Describe a condition tree in SQL-like syntax */
+function _describeCondition(node: ConditionNode): string {
+	switch (node.op) {
+		case 'eq':
+			return `${node.field} = ${_formatValue(node.value)}`;
+		case 'ne':
+			return `${node.field} != ${_formatValue(node.value)}`;
+		case 'gt':
+			return `${node.field} > ${_formatValue(node.value)}`;
+		case 'gte':
+			return `${node.field} >= ${_formatValue(node.value)}`;
+		case 'lt':
+			return `${node.field} < ${_formatValue(node.value)}`;
+		case 'lte':
+			return `${node.field} <= ${_formatValue(node.value)}`;
+		case 'between':
+			return `${node.field} BETWEEN ${_formatValue(node.min)} AND ${_formatValue(node.max)}`;
+		case 'inArray':
+			return `${node.field} IN (${node.values.map(_formatValue).join(', ')})`;
+		case 'like':
+		case 'ilike':
+			return `${node.field} ${node.op.toUpperCase()} ${_formatValue(node.pattern)}`;
+		case 'isNull':
+			return `${node.field} IS NULL`;
+		case 'and':
+		case 'or':
+			return `(${node.conditions.map(_describeCondition).join(` ${node.op.toUpperCase()} `)})`;
+		case 'not':
+			return `NOT ${_describeCondition(node.condition)}`;
+	}
+}
+
+/**
+ * Plan how to read the rows matching the where clauses of a query (combined with `AND`).
+ * - Candidate access paths: index clauses (`where(index, query)`, `wherePk()`) and condition clauses on the primary key or a single-field index.
+ * - The most selective candidate is chosen: single-key reads before ranges, then primary key, unique index and plain index.
+ * - Everything not enforced by the chosen key range becomes the residual in-memory filter.
+ *
+ * @param store Object store to read from
+ * @param clauses Where clauses of the query
+ * @param multiEntryFields Fields with multi-entry index
+ * @param access Restrict the access path: a source (the store itself for the primary key) to only consider that source, `false` for a full scan
+ *
+ * @throws {RangeError} If an index clause references an index that does not exist
+ */
+export function _planQuery<T extends GenericObject>(
+	store: IDBObjectStore,
+	clauses: ReadonlyArray<WhereClause<T>>,
+	multiEntryFields: readonly string[],
+	access?: IDBObjectStore | IDBIndex | false
+): QueryPlan<T> {
+	const candidates: Candidate[] = [];
+	const conjuncts: ConditionNode[] = [];
+	const indexChecks = new Map<WhereClause<T>, WherePredicate<T>>();
+
+	for (const clause of clauses) {
+		if (clause.kind === 'condition') {
+			conjuncts.push(..._flattenAnd(clause.condition));
+		} else if (clause.kind === 'index') {
+			const source = _resolveSource(store, clause.index);
+			const range = _toKeyRange(source.keyPath, clause.query);
+
+			indexChecks.set(clause, _compileIndexClause<T>(source, clause.query));
+
+			candidates.push({
+				source,
+				range,
+				access: _getAccess(store, source),
+				isEquality: _isSingleKey(range),
+				covered: [clause as WhereClause<GenericObject>],
+			});
+		}
+	}
+
+	const fields = new Set(
+		conjuncts.flatMap((node) => ('field' in node && node.op !== 'ne' ? [node.field] : []))
+	);
+
+	for (const field of fields) {
+		const source = _findSource(store, field);
+
+		if (!source) continue;
+
+		const isMultiEntry = source !== store && (source as IDBIndex).multiEntry;
+		const fieldRange = _buildKeyRange(
+			conjuncts.filter((node) => 'field' in node && node.field === field),
+			isMultiEntry
+		);
+
+		if (!fieldRange) continue;
+
+		candidates.push({
+			source,
+			range: fieldRange.range,
+			access: _getAccess(store, source),
+			isEquality: _isSingleKey(fieldRange.range),
+			covered: fieldRange.covered,
+		});
+	}
+
+	const rank = ({ access, isEquality }: Candidate) =>
+		(isEquality ? 0 : 3) + ['primaryKey', 'uniqueIndex', 'index'].indexOf(access);
+
+	const chosen =
+		access === false ? undefined : (
+			candidates
+				.filter(
+					({ source }) =>
+						isUndefined(access) ||
+						(source === store ?
+							access === store
+						:	access !== store && source.name === access.name)
+				)
+				.reduce<Candidate | undefined>(
+					(best, candidate) =>
+						!best || rank(candidate) < rank(best) ? candidate : best,
+					undefined
+				)
+		);
+
+	// Residual: everything not enforced by the chosen key range
+	const covered = new Set<unknown>(chosen?.covered);
+	const filters: WherePredicate<T>[] = [];
+	const residual: string[] = [];
+
+	for (const clause of clauses) {
+		if (covered.has(clause)) continue;
+
+		if (clause.kind === 'predicate') {
+			filters.push(clause.predicate);
+			residual.push(
+				`predicate${clause.predicate.name ? ` ${clause.predicate.name}` : ''}`
+			);
+		} else if (clause.kind === 'index') {
+			filters.push(indexChecks.get(clause)!);
+			residual.push(`${clause.index} ${_describeRange(clause.query)}`);
+		}
+	}
+
+	for (const node of conjuncts) {
+		if (covered.has(node)) continue;
+
+		filters.push(_compileCondition<T>(node, multiEntryFields));
+		residual.push(_describeCondition(node));
+	}
+
+	return {
+		source: chosen?.source ?? store,
+		range: chosen?.range ?? null,
+		access: chosen?.access ?? 'fullScan',
+		filter:
+			filters.length > 0 ? (row) => filters.every((filter) => filter(row)) : undefined,
+		residual,
+	};
+}
+
+/**
+ * Narrow a key (range) to the keys after a pagination cursor in the given direction.
+ * - Returns `null` if no key is left.
+ */
+export function _rangeAfter(
+	range: IDBKeyRange | IDBValidKey | null,
+	cursor: IDBValidKey,
+	direction: IDBCursorDirection
+): IDBKeyRange | null {
+	const keyRange =
+		range === null || range instanceof IDBKeyRange ? range : IDBKeyRange.only(range);
+
+	let lower: Bound | undefined =
+		isUndefined(keyRange?.lower) ? undefined : (
+			{ value: keyRange.lower, open: keyRange.lowerOpen }
+		);
+	let upper: Bound | undefined =
+		isUndefined(keyRange?.upper) ? undefined : (
+			{ value: keyRange.upper, open: keyRange.upperOpen }
+		);
+
+	if (direction === 'prev' || direction === 'prevunique') {
+		upper = _narrowUpper(upper, { value: cursor, open: true });
+	} else {
+		lower = _narrowLower(lower, { value: cursor, open: true });
+	}
+
+	if (lower && upper) {
+		const cmp = indexedDB.cmp(lower.value, upper.value);
+
+		if (cmp > 0 || (cmp === 0 && (lower.open || upper.open))) return null;
+
+		return IDBKeyRange.bound(lower.value, upper.value, lower.open, upper.open);
+	}
+
+	return lower ?
+			IDBKeyRange.lowerBound(lower.value, lower.open)
+		:	IDBKeyRange.upperBound(upper!.value, upper!.open);
+}
+
+/** Check if a source is a multi-entry index, which reads a row once per matching array element */
+export function _isMultiEntrySource(source: IDBObjectStore | IDBIndex): source is IDBIndex {
+	return source instanceof IDBIndex && source.multiEntry;
+}
+
+/**
+ * Check if a cursor on a multi-entry index is at the first entry of its row in cursor direction.
+ * - Reading rows only at their first entry within `range` keeps each row once, across pages too.
+ *
+ * @param cursor Cursor opened on the multi-entry index
+ * @param range Key (range) the read is narrowed to, before any pagination cursor
+ */
+export function _isFirstEntry(
+	cursor: IDBCursorWithValue,
+	range: IDBKeyRange | IDBValidKey | null
+): boolean {
+	const value: unknown = _extractKey(cursor.value, (cursor.source as IDBIndex).keyPath);
+	const keyRange =
+		range === null || range instanceof IDBKeyRange ? range : IDBKeyRange.only(range);
+	const sign = cursor.direction.startsWith('prev') ? -1 : 1;
+
+	const first = (Array.isArray(value) ? value : [value])
+		.filter((key) => _isValidKey(key) && (!keyRange || keyRange.includes(key)))
+		.reduce<IDBValidKey | undefined>(
+			(first, key) =>
+				isUndefined(first) || indexedDB.cmp(key, first) * sign < 0 ? key : first,
+			undefined
+		);
+
+	return isUndefined(first) || indexedDB.cmp(cursor.key, first) === 0;
+}
+
+/** Report the access path, key range and residual filters of a plan */
+export function _explainPlan<T extends GenericObject>(
+	store: IDBObjectStore,
+	plan: QueryPlan<T>
+): QueryExplanation {
+	const { source, range, access, residual } = plan;
+
+	return {
+		table: store.name,
+		access,
+		index:
+			access === 'fullScan' ? undefined
+			: source === store ? (store.keyPath as KeyPath)
+			: (source as IDBIndex).name,
+		range: range === null ? undefined : _describeRange(range),
+		residual,
+	};
+}
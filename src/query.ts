@@ -2,29 +2,103 @@ import {
 	isFunction,
 	isNonEmptyString,
 	isNotEmptyObject,
+	isObject,
 	isUndefined,
 	sortAnArray,
 } from 'nhb-toolbox';
-import { type Table } from './core';
-import { _abortTransaction } from './helpers';
+import { ColumnType, OnUpdate, type Table } from './core';
+import {
+	_abortTransaction,
+	_extractKey,
+	_getMultiEntryFields,
+	_getStoredSetFields,
+	_isKeyPathField,
+	_isSameKeyPath,
+	_projectRow,
+	_restoreSets,
+	_rollbackTransaction,
+	_settleRequest,
+	_softDeleteClauses,
+	_toKeyRange,
+} from './helpers';
+import {
+	_avgOf,
+	_compareKeys,
+	_distinctRows,
+	_extremeOf,
+	_groupRows,
+	_sumOf,
+} from './aggregates';
+import { _isChangeLogEnabled, _logChanges } from './changelog';
+import {
+	_applyDeletePolicies,
+	_checkParents,
+	_conflictSources,
+	_findConflict,
+	_getDependentTables,
+	_getParentTables,
+} from './constraints';
+import { _runBeforeInsert, _runBeforeUpdate, _writeScope } from './hooks';
+import { _isKeyInRange, _onChanges, _recordChanges } from './live';
+import {
+	_explainPlan,
+	_findSource,
+	_isFirstEntry,
+	_isMultiEntrySource,
+	_planQuery,
+	_rangeAfter,
+} from './planner';
+import { _collectRelationTables, _keyId, _loadRelations } from './relations';
 import type {
+	$BooleanKey,
+	$CollectionItem,
+	$CollectionKey,
+	$IndexQueryValue,
+	$InferCompoundIndex,
 	$InferIndex,
 	$InferPrimaryKey,
+	$NumericKey,
+	$PrimaryKeyValue,
+	$RelationScope,
+	$WithResult,
+	ChangeSet,
 	ColumnDefinition,
+	ConflictDoNothingOptions,
+	ConflictDoUpdateOptions,
+	ConflictResult,
 	CursorCallback,
 	FirstOverloadParams,
 	ForcedAny,
+	ForeignKey,
 	GenericObject,
+	GroupAggregates,
+	GroupByRow,
+	HookContext,
 	InferUpdateType,
+	InsertRunOptions,
+	KeyPath,
+	LiveQueryCallback,
 	Maybe,
 	NestedPrimitiveKey,
 	PageOptions,
 	PageResult,
+	Prettify,
+	QueryCondition,
+	QueryExplanation,
+	QueryPlan,
 	RejectFn,
+	RelationGraph,
 	SelectFields,
+	SoftDeleteScope,
 	SortDirection,
+	TableHooks,
+	Unsubscribe,
+	UpdateSetter,
+	WhereClause,
 	WherePredicate,
+	WithOptions,
 } from './types';
+import { getTimestamp } from './utils';
 import { validateAndPrepareData } from './validators';
 
 /** Symbol for type extraction (exists only in type system) */
@@ -34,24 +108,101 @@ const IsArray = Symbol('IsArray');
 
 type IDBGetter = () => IDBDatabase;
 
+/** Keep the first read of each row of a multi-entry index (read once per matching array element), by primary key */
+function _uniqueRows<T extends GenericObject>(rows: T[], index: IDBIndex): T[] {
+	const keyPath = index.objectStore.keyPath as KeyPath;
+	const seen = new Set<unknown>();
+
+	return rows.filter((row) => {
+		const id = _keyId(_extractKey(row, keyPath));
+
+		if (seen.has(id)) return false;
+
+		seen.add(id);
+		return true;
+	});
+}
+
+/**
+ * Walk the rows of a query plan with a cursor, one row at a time (for updates and deletes).
+ * - `visit` receives the cursor and the row (with `set` values restored) for each row passing the plan filter; the cursor continues once it settles.
+ * - With `revisits` (multi-entry indexes, or updates moving rows ahead in the index), rows are tracked by primary key to visit them once.
+ * @returns A promise settling once every row is visited, rejecting with the first error
+ */
+function _walkRows<T extends GenericObject>(
+	plan: QueryPlan<T>,
+	storedSetFields: string[],
+	revisits: boolean,
+	visit: (cursor: IDBCursorWithValue, row: T) => Promise<unknown>
+): Promise<void> {
+	const { source, range, filter } = plan;
+	const visited = revisits ? new Set<unknown>() : null;
+
+	return new Promise((resolve, reject) => {
+		const request = source.openCursor(range);
+
+		request.onsuccess = () => {
+			const cursor = request.result;
+
+			if (!cursor) {
+				resolve();
+				return;
+			}
+
+			if (visited) {
+				const id = _keyId(cursor.primaryKey);
+
+				if (visited.has(id)) {
+					cursor.continue();
+					return;
+				}
+
+				visited.add(id);
+			}
+
+			const row = _restoreSets(cursor.value as T, storedSetFields);
+
+			if (filter && !filter(row)) {
+				cursor.continue();
+				return;
+			}
+
+			Promise.resolve()
+				.then(() => visit(cursor, row))
+				.then(() => cursor.continue())
+				.catch((err) => reject(err));
+		};
+
+		request.onerror = () => reject(request.error);
+	});
+}
+
 /** @class Select query builder. */
 export class SelectQuery<
 	T extends GenericObject,
 	S extends Partial<Record<string, boolean>> | null = null,
 	Tbl extends Table = Table,
+	Ctx extends $RelationScope = $RelationScope,
 > {
 	#table: string;
 	#readyPromise: Promise<void>;
 
 	#dbGetter: IDBGetter;
-	#whereCondition?: WherePredicate<T>;
-	#whereIndexName?: string;
-	#whereIndexQuery?: IDBKeyRange;
+	#whereClauses: WhereClause<T>[] = [];
+
+	#relationGraph?: RelationGraph;
+	#withOptions?: GenericObject;
+	#relationTables: string[] = [];
 
 	#orderByKey?: NestedPrimitiveKey<T>;
 	#orderByDir: SortDirection = 'asc';
 	#limitCount?: number;
+	#offsetCount?: number;
 	#useIndexCursor?: boolean;
+	#multiEntryFields: string[];
+	#storedSetFields: string[];
+	#softDelete?: string;
+	#deletedScope: SoftDeleteScope = 'exclude';
 
 	#transaction?: IDBTransaction;
 
@@ -61,57 +212,180 @@ export class SelectQuery<
 		table: string,
 		dbGetter: IDBGetter,
 		readyPromise: Promise<void>,
+		columns?: ColumnDefinition,
+		relationGraph?: RelationGraph,
+		softDelete?: string,
 		transaction?: IDBTransaction
 	) {
 		this.#table = table;
 		this.#dbGetter = dbGetter;
 		this.#readyPromise = readyPromise;
+		this.#multiEntryFields = _getMultiEntryFields(columns);
+		this.#storedSetFields = _getStoredSetFields(columns);
+		this.#relationGraph = relationGraph;
+		this.#softDelete = softDelete;
 
 		this.#transaction = transaction;
 	}
 
-	/** @internal Create a readonly transaction and return the store */
+	/** @internal Where clauses, including the soft delete scope */
+	#clauses(): WhereClause<T>[] {
+		return [
+			...this.#whereClauses,
+			..._softDeleteClauses<T>(this.#softDelete, this.#deletedScope),
+		];
+	}
+
+	/** @internal Restore stored rows read from a source to their selected shape (e.g. multi-entry sets), once per row */
+	#restore(rows: T[], source: IDBObjectStore | IDBIndex): T[] {
+		const unique = _isMultiEntrySource(source) ? _uniqueRows(rows, source) : rows;
+
+		if (this.#storedSetFields.length === 0) return unique;
+
+		return unique.map((row) => _restoreSets(row, this.#storedSetFields));
+	}
+
+	/** @internal Create a readonly transaction (including tables of eager loaded relations) and return the store */
 	#getStore(): { transaction: IDBTransaction; store: IDBObjectStore } {
 		const transaction =
-			this.#transaction ?? this.#dbGetter().transaction(this.#table, 'readonly');
+			this.#transaction ??
+			this.#dbGetter().transaction([this.#table, ...this.#relationTables], 'readonly');
 		const store = transaction.objectStore(this.#table);
 		return { transaction, store };
 	}
 
-	/** @internal Check if key is an index on the store for the `#whereIndexName` */
-	#isIndexKey(store: IDBObjectStore): boolean {
-		return (
-			isNonEmptyString(this.#whereIndexName) &&
-			store.indexNames.contains(this.#whereIndexName)
-		);
+	/**
+	 * @internal Plan the read for the where clauses (source, key range and in-memory filter)
+	 * @param store Object store to read from
+	 * @param reject Rejects the query if planning fails (e.g. unknown index)
+	 * @param access Restrict the access path: a source (the store itself for the primary key) to only consider that source, `false` for a full scan
+	 */
+	#plan(
+		store: IDBObjectStore,
+		reject: RejectFn,
+		access?: IDBObjectStore | IDBIndex | false
+	): QueryPlan<T> | null {
+		try {
+			return _planQuery(store, this.#clauses(), this.#multiEntryFields, access);
+		} catch (error) {
+			reject(error);
+			return null;
+		}
 	}
 
-	/** @internal Check if key is the primary key on the store for the `#whereIndexName` */
-	#isPrimaryKey(store: IDBObjectStore): boolean {
-		return isNonEmptyString(this.#whereIndexName) && store.keyPath === this.#whereIndexName;
+	/** @internal Get the index to sort by with a cursor, if any */
+	#getSortIndex(store: IDBObjectStore): string | undefined {
+		if (
+			this.#useIndexCursor &&
+			isNonEmptyString(this.#orderByKey) &&
+			store.indexNames.contains(this.#orderByKey)
+		) {
+			return this.#orderByKey;
+		}
 	}
 
-	/** @internal Build indexed store (primary key or index) for where queries */
-	#buildIndexedStore(store: IDBObjectStore, reject: RejectFn) {
-		const isPK = this.#isPrimaryKey(store);
-		const isIndex = this.#isIndexKey(store);
-
-		if (!isPK && !isIndex) {
-			reject(
-				new RangeError(
-					`Index '${this.#whereIndexName}' does not exist on table '${this.#table}'`
-				)
+	/** @internal Eager load the relations requested with `with()` (in the store's transaction) and project rows */
+	async #output(store: IDBObjectStore, rows: T[]): Promise<Partial<T>[]> {
+		if (this.#relationGraph && this.#withOptions && rows.length > 0) {
+			await _loadRelations(
+				store.transaction,
+				this.#relationGraph,
+				this.#table,
+				rows,
+				this.#withOptions
 			);
-
-			return null;
 		}
 
-		// Primary keys use store directly, indexes use store.index()
-		return isPK ? store : store.index(this.#whereIndexName as string);
+		return rows.map((row) => this.#projectRow(row));
+	}
+
+	/** @internal Read rows through a cursor in sort direction (after offset, up to limit) and resolve projected rows */
+	#readCursor(
+		source: IDBObjectStore | IDBIndex,
+		range: IDBKeyRange | IDBValidKey | null,
+		filter: Maybe<WherePredicate<T>>,
+		resolve: (rows: Partial<T>[]) => void,
+		reject: RejectFn
+	) {
+		const direction = this.#orderByDir === 'desc' ? 'prev' : 'next';
+		const request = source.openCursor(range, direction);
+		const store = source instanceof IDBIndex ? source.objectStore : source;
+		const isMultiEntry = _isMultiEntrySource(source);
+		const results: T[] = [];
+		const offset = this.#offsetCount ?? 0;
+
+		let count = 0;
+		let skipped = 0;
+
+		request.onsuccess = () => {
+			const cursor = request.result;
+
+			if (cursor) {
+				// A multi-entry index reads a row once per matching element: keep its first entry
+				if (isMultiEntry && !_isFirstEntry(cursor, range)) {
+					cursor.continue();
+					return;
+				}
+
+				// Without in-memory filter every row counts: jump over the offset at once
+				if (!filter && !isMultiEntry && skipped < offset) {
+					skipped = offset;
+					cursor.advance(offset);
+					return;
+				}
+
+				const row = _restoreSets(cursor.value as T, this.#storedSetFields);
+
+				if (filter && !filter(row)) {
+					cursor.continue();
+					return;
+				}
+
+				if (skipped < offset) {
+					skipped++;
+					cursor.continue();
+					return;
+				}
+
+				results.push(row);
+				count++;
+
+				// Stop if we've reached the limit
+				if (this.#limitCount && count >= this.#limitCount) {
+					this.#output(store, results).then(resolve, reject);
+					return;
+				}
+
+				cursor.continue();
+			} else {
+				// No more results
+				this.#output(store, results).then(resolve, reject);
+			}
+		};
+
+		request.onerror = () => reject(request.error);
 	}
 
 	/** @internal Sort data in memory if needed */
-	#sort(data: T[]): T[] {
+	#sort(data: T[], store: IDBObjectStore): T[] {
+		const sortIndex = this.#getSortIndex(store);
+
+		// Same order as a cursor on the sort index: (compound) index key, then primary key
+		if (sortIndex) {
+			const keyPath = store.index(sortIndex).keyPath as KeyPath;
+			const pkPath = store.keyPath as KeyPath;
+			const sign = this.#orderByDir === 'desc' ? -1 : 1;
+
+			return data
+				.map((row) => ({
+					row,
+					key: _extractKey(row, keyPath),
+					pk: _extractKey(row, pkPath),
+				}))
+				.sort((a, b) => (_compareKeys(a.key, b.key) || _compareKeys(a.pk, b.pk)) * sign)
+				.map(({ row }) => row);
+		}
+
 		if (this.#orderByKey) {
 			return sortAnArray(data, {
 				sortOrder: this.#orderByDir,
@@ -124,51 +398,27 @@ export class SelectQuery<
 		return data;
 	}
 
-	/** @internal Apply sort, limit, and projection pipeline to results */
-	#applyPipeline(results: T[]): Partial<T>[] {
+	/** @internal Apply sort, offset and limit pipeline to results (projection happens in output) */
+	#applyPipeline(results: T[], store: IDBObjectStore): T[] {
 		// Apply orderBy
-		let processed = this.#sort(results);
+		const processed = this.#sort(results, store);
 
-		// Apply limit
-		if (this.#limitCount) {
-			processed = processed.slice(0, this.#limitCount);
-		}
-
-		// Apply projection (select)
-		return processed.map((row) => this.#projectRow(row));
+		// Apply offset and limit
+		return this.#slice(processed);
 	}
 
-	/** Projects a row based on selected fields */
-	#projectRow(row: T): Partial<T> {
-		type Key = keyof T;
-
-		if (!isNotEmptyObject(this?.[Selected])) return row;
-
-		const projected = {} as Partial<T>;
-
-		const selectionEntries = Object.entries(this[Selected]);
-		const selectionKeys = new Set(Object.keys(this[Selected]));
+	/** @internal Apply offset and limit to results */
+	#slice<I>(items: I[]): I[] {
+		if (!this.#offsetCount && !this.#limitCount) return items;
 
-		// Check if any value is true
-		const hasTrueValues = selectionEntries.some(([, value]) => value === true);
+		const start = this.#offsetCount ?? 0;
 
-		if (hasTrueValues) {
-			// Include only fields marked as true
-			for (const [key, value] of selectionEntries) {
-				if (value === true) {
-					projected[key as Key] = row[key];
-				}
-			}
-		} else {
-			// All are false: include all fields EXCEPT those marked as false
-			for (const key of Object.keys(row)) {
-				if (!selectionKeys.has(key) || this[Selected][key] !== false) {
-					projected[key as Key] = row[key];
-				}
-			}
-		}
+		return items.slice(start, this.#limitCount ? start + this.#limitCount : undefined);
+	}
 
-		return projected;
+	/** Projects a row based on selected fields */
+	#projectRow(row: T): Partial<T> {
+		return _projectRow(row, this[Selected]);
 	}
 
 	/**
@@ -178,42 +428,124 @@ export class SelectQuery<
 	select<Selection extends Partial<Record<keyof T, boolean>>>(cols: Selection) {
 		this[Selected] = cols as unknown as S;
 
-		return this as unknown as SelectQuery<T, Selection, Tbl>;
+		return this as unknown as SelectQuery<T, Selection, Tbl, Ctx>;
+	}
+
+	/**
+	 * @instance Eager load related records declared with `relations()`
+	 * @param relations Relations to load by name: `true`, or `{ with: {...} }` for nested relations
+	 *
+	 * @remarks
+	 * - Related records are read in the same transaction, with one batched lookup per relation through the index (or primary key) on the related field.
+	 * - Relations are loaded after filtering, ordering and pagination: `where()` and `orderBy()` apply to the table's own columns.
+	 * - `one()` relations resolve to the related record or `null`, `many()` relations to a list.
+	 * - Inside {@link Locality.transaction transactions}, the transaction must include the related tables.
+	 *
+	 * @throws {RangeError} If a relation is not declared for the table
+	 *
+	 * @example
+	 * const users = await db
+	 *   .from('users')
+	 *   .with({ posts: { with: { comments: true } } })
+	 *   .findAll();
+	 * // users[0].posts[0].comments
+	 */
+	with<const W extends WithOptions<Ctx>>(
+		relations: W & Record<Exclude<keyof W, keyof WithOptions<Ctx>>, never>
+	) {
+		const graph = this.#relationGraph ?? { schema: {}, relations: {} };
+		const withOptions = { ...this.#withOptions, ...relations };
+
+		this.#relationTables = _collectRelationTables(graph, this.#table, withOptions);
+		this.#withOptions = withOptions;
+
+		return this as unknown as SelectQuery<Prettify<T & $WithResult<Ctx, W>>, S, Tbl, Ctx>;
 	}
 
 	/**
 	 * @instance Filter rows based on predicate function
 	 * @param predicate Filtering function
+	 *
+	 * @remarks Multiple `where()` calls (of any form) are combined with `AND`. See {@link explain} for the chosen plan.
 	 */
 	where(predicate: WherePredicate<T>): this;
 
+	/**
+	 * @instance Filter rows based on a query condition
+	 * @param condition Condition built with operators ({@link eq}, {@link gt}, {@link and} etc.)
+	 *
+	 * @remarks
+	 * - Conditions on the primary key or an indexed field can be read through a key range on it, the rest is checked in memory.
+	 *
+	 * @example
+	 * const result = await db
+	 *   .from('users')
+	 *   .where(and(gte('age', 18), like('name', 'Ali%')))
+	 *   .findAll();
+	 */
+	where(condition: QueryCondition<T>): this;
+
 	/**
 	 * @instance Filter rows based on index query
 	 * @param indexName Name of the index/primary key to query
-	 * @param query Key value or {@link IDBKeyRange} to search for
+	 * @param query Key value (tuple or tuple prefix for compound indexes) or {@link IDBKeyRange} to search for
 	 */
-	where<IdxKey extends $InferPrimaryKey<Tbl['columns']> | $InferIndex<Tbl['columns']>>(
-		indexName: IdxKey,
-		query: IDBKeyRange | T[IdxKey]
-	): this;
-
-	where<IdxKey extends $InferPrimaryKey<Tbl['columns']> | $InferIndex<Tbl['columns']>>(
-		condition: WherePredicate<T> | IdxKey,
-		query?: IDBKeyRange | T[IdxKey]
+	where<
+		IdxKey extends
+			| $InferPrimaryKey<Tbl['columns']>
+			| $InferIndex<Tbl['columns']>
+			| $InferCompoundIndex<Tbl>,
+	>(indexName: IdxKey, query: IDBKeyRange | $IndexQueryValue<T, Tbl, IdxKey>): this;
+
+	where<
+		IdxKey extends
+			| $InferPrimaryKey<Tbl['columns']>
+			| $InferIndex<Tbl['columns']>
+			| $InferCompoundIndex<Tbl>,
+	>(
+		condition: WherePredicate<T> | QueryCondition<T> | IdxKey,
+		query?: IDBKeyRange | $IndexQueryValue<T, Tbl, IdxKey>
 	): this {
 		if (isFunction(condition)) {
-			this.#whereCondition = condition;
-			this.#whereIndexName = undefined;
-			this.#whereIndexQuery = undefined;
+			this.#whereClauses.push({ kind: 'predicate', predicate: condition });
 		} else if (isNonEmptyString(condition) && !isUndefined(query)) {
-			this.#whereIndexName = condition;
-			this.#whereIndexQuery = query;
-			this.#whereCondition = undefined;
+			this.#whereClauses.push({
+				kind: 'index',
+				index: condition,
+				query: query as IDBKeyRange | IDBValidKey,
+			});
+		} else if (isObject(condition)) {
+			this.#whereClauses.push({ kind: 'condition', condition });
 		}
 
 		return this;
 	}
 
+	/**
+	 * @instance Include soft-deleted rows
+	 *
+	 * @remarks Only affects tables with a `softDelete` column, whose deleted rows are left out by default.
+	 */
+	withDeleted(): this {
+		this.#deletedScope = 'include';
+
+		return this;
+	}
+
+	/**
+	 * @instance Read only soft-deleted rows
+	 *
+	 * @remarks Only affects tables with a `softDelete` column.
+	 *
+	 * @example
+	 * const trashed = await db.from('posts').onlyDeleted().orderBy('deletedAt', 'desc').findAll();
+	 */
+	onlyDeleted(): this {
+		this.#deletedScope = 'only';
+
+		return this;
+	}
+
 	/**
 	 * @instance Order results by specified key and direction
 	 * @param key Key to order by
@@ -240,10 +572,12 @@ export class SelectQuery<
 	 * - Ensure that the specified index exists on the table.
 	 * - For in-memory sorting, use {@link orderBy} instead.
 	 */
-	sortByIndex<IdxKey extends $InferIndex<Tbl['columns']> | $InferPrimaryKey<Tbl['columns']>>(
-		indexName: IdxKey,
-		dir: SortDirection = 'asc'
-	): this {
+	sortByIndex<
+		IdxKey extends
+			| $InferIndex<Tbl['columns']>
+			| $InferPrimaryKey<Tbl['columns']>
+			| $InferCompoundIndex<Tbl>,
+	>(indexName: IdxKey, dir: SortDirection = 'asc'): this {
 		this.#orderByKey = indexName as unknown as NestedPrimitiveKey<T>;
 		this.#orderByDir = dir;
 		this.#useIndexCursor = true;
@@ -260,12 +594,34 @@ export class SelectQuery<
 		return this;
 	}
 
+	/**
+	 * @instance Skip a number of matching results
+	 * @param count Number of results to skip
+	 *
+	 * @remarks
+	 * - Applied after filtering and ordering, before {@link limit}.
+	 * - Index cursor reads ({@link sortByIndex}, {@link stream}) skip rows with `IDBCursor.advance()` when no in-memory filter is needed.
+	 * - Ignored by {@link page} (use its cursor instead) and {@link count}.
+	 *
+	 * @example
+	 * // Page 17 of 20 rows per page
+	 * const rows = await db.from('users').sortByIndex('name').offset(16 * 20).limit(20).findAll();
+	 */
+	offset(count: number): this {
+		if (!Number.isInteger(count) || count < 0) {
+			throw new RangeError('offset() count must be a non-negative integer.');
+		}
+
+		this.#offsetCount = count;
+		return this;
+	}
+
 	/** Fetch all matching records */
-	async findAll(this: SelectQuery<T, null>): Promise<T[]>;
+	async findAll(this: SelectQuery<T, null, Tbl, Ctx>): Promise<T[]>;
 
 	/** Fetch all matching records with selected fields */
 	async findAll<Selection extends Partial<Record<keyof T, boolean>>>(
-		this: SelectQuery<T, Selection>
+		this: SelectQuery<T, Selection, Tbl, Ctx>
 	): Promise<SelectFields<T, Selection>[]>;
 
 	async findAll() {
@@ -273,92 +629,58 @@ export class SelectQuery<
 		return new Promise((resolve, reject) => {
 			const { store } = this.#getStore();
 
-			// If we have an index-based where query, use it
-			if (this.#whereIndexName && !isUndefined(this.#whereIndexQuery)) {
-				const source = this.#buildIndexedStore(store, reject);
+			const plan = this.#plan(store, reject);
 
-				if (!source) return;
+			if (!plan) return;
 
-				const request = source.getAll(this.#whereIndexQuery) as IDBRequest<T[]>;
+			const { source, range, filter } = plan;
+			const sortIndex = this.#getSortIndex(store);
 
-				request.onsuccess = () => {
-					resolve(this.#applyPipeline(request.result));
-				};
-
-				request.onerror = () => reject(request.error);
+			if (sortIndex) {
+				// Where and sort use the same index: walk a single index cursor in sort order
+				if (source !== store && (source as IDBIndex).name === sortIndex) {
+					this.#readCursor(source, range, filter, resolve, reject);
+					return;
+				}
 
-				return;
+				// No key range to read: walk the sort index and filter in memory
+				if (source === store && range === null) {
+					this.#readCursor(store.index(sortIndex), null, filter, resolve, reject);
+					return;
+				}
 			}
 
-			// Check if we can use an optimized index cursor
-			const useIdxCursor =
-				this.#useIndexCursor &&
-				this.#orderByKey &&
-				isNonEmptyString(this.#orderByKey) &&
-				store.indexNames.contains(this.#orderByKey) &&
-				!this.#whereCondition; // Only use cursor if no predicate where condition
-
-			if (useIdxCursor) {
-				// Use optimized index cursor
-				const index = store.index(this.#orderByKey as string);
-				const direction = this.#orderByDir === 'desc' ? 'prev' : 'next';
-				const request = index.openCursor(null, direction);
-				const results: T[] = [];
-
-				let count = 0;
-
-				request.onsuccess = () => {
-					const cursor = request.result;
-
-					if (cursor) {
-						results.push(cursor.value);
-						count++;
-
-						// Stop if we've reached the limit
-						if (this.#limitCount && count >= this.#limitCount) {
-							resolve(results.map((row) => this.#projectRow(row)));
-							return;
-						}
-
-						cursor.continue();
-					} else {
-						// No more results
-						resolve(results.map((row) => this.#projectRow(row)));
-					}
-				};
-
-				request.onerror = () => reject(request.error);
-			} else {
-				// Use standard getAll with in-memory sorting
-				const request = store.getAll() as IDBRequest<T[]>;
+			// Read the key range with getAll, then filter and sort in memory
+			const request = source.getAll(range) as IDBRequest<T[]>;
 
-				request.onsuccess = () => {
-					let results = request.result;
+			request.onsuccess = () => {
+				let results = this.#restore(request.result, source);
 
-					// Apply where filter
-					if (this.#whereCondition) {
-						results = results.filter(this.#whereCondition);
-					}
+				if (filter) {
+					results = results.filter(filter);
+				}
 
-					resolve(this.#applyPipeline(results));
-				};
+				this.#output(store, this.#applyPipeline(results, store)).then(resolve, reject);
+			};
 
-				request.onerror = () => reject(request.error);
-			}
+			request.onerror = () => reject(request.error);
 		});
 	}
 
 	/** Fetch records with cursor-based pagination */
-	async page(this: SelectQuery<T, null>, options?: PageOptions): Promise<PageResult<T, null>>;
+	async page(
+		this: SelectQuery<T, null, Tbl, Ctx>,
+		options?: PageOptions
+	): Promise<PageResult<T, null>>;
 
 	/** Fetch records with cursor-based pagination and selected fields */
 	async page<Selection extends Partial<Record<keyof T, boolean>>>(
-		this: SelectQuery<T, Selection>,
+		this: SelectQuery<T, Selection, Tbl, Ctx>,
 		options?: PageOptions
 	): Promise<PageResult<T, Selection>>;
 
 	async page<Selection extends Partial<Record<keyof T, boolean>>>(
-		this: SelectQuery<T, Selection | null>,
+		this: SelectQuery<T, Selection | null, Tbl, Ctx>,
 		options: PageOptions = {}
 	) {
 		await this.#readyPromise;
@@ -374,15 +696,6 @@ export class SelectQuery<
 				return;
 			}
 
-			if (!isUndefined(options.cursor) && !isUndefined(this.#whereIndexQuery)) {
-				reject(
-					new Error(
-						'page() does not support cursor pagination with index where queries.'
-					)
-				);
-				return;
-			}
-
 			const limit = options.limit ?? this.#limitCount;
 			if (limit !== undefined && limit < 0) {
 				reject(new RangeError('page() limit must be a non-negative number.'));
@@ -397,64 +710,77 @@ export class SelectQuery<
 				return;
 			}
 
-			const useIdxCursor =
-				this.#useIndexCursor &&
-				this.#orderByKey &&
-				isNonEmptyString(this.#orderByKey) &&
-				store.indexNames.contains(this.#orderByKey);
-
-			let source: IDBObjectStore | IDBIndex | null = null;
-			let range: IDBKeyRange | IDBValidKey | null = null;
-
-			if (this.#whereIndexName && !isUndefined(this.#whereIndexQuery)) {
-				source = this.#buildIndexedStore(store, reject);
-				if (!source) return;
-				range = this.#whereIndexQuery;
-			} else if (useIdxCursor) {
-				source = store.index(this.#orderByKey as string);
-			} else {
-				source = store;
+			const sortIndex = this.#getSortIndex(store);
+
+			// Cursors are keys of the read order: only the sort index (or primary key) may narrow the read
+			const plan = this.#plan(store, reject, sortIndex ? store.index(sortIndex) : store);
+
+			if (!plan) return;
+
+			const { filter } = plan;
+			let { source, range } = plan;
+
+			if (source === store && range === null && sortIndex) {
+				source = store.index(sortIndex);
 			}
 
 			const direction = this.#orderByDir === 'desc' ? 'prev' : 'next';
 
 			if (!isUndefined(options.cursor)) {
-				range =
-					direction === 'prev' ?
-						IDBKeyRange.upperBound(options.cursor, true)
-					:	IDBKeyRange.lowerBound(options.cursor, true);
+				range = _rangeAfter(range, options.cursor, direction);
+
+				// Nothing left after the cursor
+				if (!range) {
+					resolve({ items: [] as T[], nextCursor: undefined } as PageResult<
+						T,
+						Selection
+					>);
+					return;
+				}
 			}
 
-			const request = source.openCursor(range ?? null, direction);
-			const items: Partial<T>[] = [];
+			const request = source.openCursor(range, direction);
+			const isMultiEntry = _isMultiEntrySource(source);
+			const rows: T[] = [];
 			let count = 0;
 
+			const finish = (nextCursor: Maybe<IDBValidKey>) => {
+				this.#output(store, rows).then(
+					(items) =>
+						resolve({
+							items: items as PageResult<T, Selection>['items'],
+							nextCursor,
+						}),
+					reject
+				);
+			};
+
 			request.onsuccess = () => {
 				const cursor = request.result;
 
 				if (!cursor) {
-					resolve({
-						items: items as PageResult<T, Selection>['items'],
-						nextCursor: undefined,
-					});
+					finish(undefined);
 					return;
 				}
 
-				const row = cursor.value as T;
+				// A multi-entry index reads a row once per matching element: keep its first entry (also across pages)
+				if (isMultiEntry && !_isFirstEntry(cursor, plan.range)) {
+					cursor.continue();
+					return;
+				}
+
+				const row = _restoreSets(cursor.value as T, this.#storedSetFields);
 
-				if (this.#whereCondition && !this.#whereCondition(row)) {
+				if (filter && !filter(row)) {
 					cursor.continue();
 					return;
 				}
 
-				items.push(this.#projectRow(row));
+				rows.push(row);
 				count++;
 
 				if (limit && count >= limit) {
-					resolve({
-						items: items as PageResult<T, Selection>['items'],
-						nextCursor: cursor.key,
-					});
+					finish(cursor.key);
 					return;
 				}
 
@@ -466,16 +792,19 @@ export class SelectQuery<
 	}
 
 	/** Stream records with a cursor */
-	async stream(this: SelectQuery<T, null>, callback: CursorCallback<T>): Promise<void>;
+	async stream(
+		this: SelectQuery<T, null, Tbl, Ctx>,
+		callback: CursorCallback<T>
+	): Promise<void>;
 
 	/** Stream records with a cursor and selected fields */
 	async stream<Selection extends Partial<Record<keyof T, boolean>>>(
-		this: SelectQuery<T, Selection>,
+		this: SelectQuery<T, Selection, Tbl, Ctx>,
 		callback: CursorCallback<SelectFields<T, Selection>>
 	): Promise<void>;
 
 	async stream<Selection extends Partial<Record<keyof T, boolean>>>(
-		this: SelectQuery<T, Selection>,
+		this: SelectQuery<T, Selection, Tbl, Ctx>,
 		callback: CursorCallback<T> | CursorCallback<SelectFields<T, Selection>>
 	) {
 		await this.#readyPromise;
@@ -491,28 +820,31 @@ export class SelectQuery<
 				return;
 			}
 
-			const useIdxCursor =
-				this.#useIndexCursor &&
-				this.#orderByKey &&
-				isNonEmptyString(this.#orderByKey) &&
-				store.indexNames.contains(this.#orderByKey);
-
-			let source: IDBObjectStore | IDBIndex | null = null;
-			let range: IDBKeyRange | IDBValidKey | null = null;
-
-			if (this.#whereIndexName && !isUndefined(this.#whereIndexQuery)) {
-				source = this.#buildIndexedStore(store, reject);
-				if (!source) return;
-				range = this.#whereIndexQuery;
-			} else if (useIdxCursor) {
-				source = store.index(this.#orderByKey as string);
-			} else {
-				source = store;
+			const sortIndex = this.#getSortIndex(store);
+
+			// Index sort reads in index order: only the sort index may narrow the read
+			const plan = this.#plan(
+				store,
+				reject,
+				sortIndex ? store.index(sortIndex) : undefined
+			);
+
+			if (!plan) return;
+
+			const { range, filter } = plan;
+			let { source } = plan;
+
+			if (source === store && range === null && sortIndex) {
+				source = store.index(sortIndex);
 			}
 
 			const direction = this.#orderByDir === 'desc' ? 'prev' : 'next';
-			const request = source.openCursor(range ?? null, direction);
+			const request = source.openCursor(range, direction);
+			const isMultiEntry = _isMultiEntrySource(source);
+			const offset = this.#offsetCount ?? 0;
+
 			let index = 0;
+			let skipped = 0;
 
 			request.onsuccess = () => {
 				const cursor = request.result;
@@ -522,16 +854,34 @@ export class SelectQuery<
 					return;
 				}
 
-				const row = cursor.value as T;
+				// A multi-entry index reads a row once per matching element: keep its first entry
+				if (isMultiEntry && !_isFirstEntry(cursor, range)) {
+					cursor.continue();
+					return;
+				}
+
+				// Without in-memory filter every row counts: jump over the offset at once
+				if (!filter && !isMultiEntry && skipped < offset) {
+					skipped = offset;
+					cursor.advance(offset);
+					return;
+				}
+
+				const row = _restoreSets(cursor.value as T, this.#storedSetFields);
 
-				if (this.#whereCondition && !this.#whereCondition(row)) {
+				if (filter && !filter(row)) {
 					cursor.continue();
 					return;
 				}
 
-				const projectedRow = this.#projectRow(row) as ForcedAny;
+				if (skipped < offset) {
+					skipped++;
+					cursor.continue();
+					return;
+				}
 
-				Promise.resolve(callback(projectedRow, index))
+				this.#output(store, [row])
+					.then(([projectedRow]) => callback(projectedRow as ForcedAny, index))
 					.then(() => {
 						index++;
 						cursor.continue();
@@ -544,11 +894,11 @@ export class SelectQuery<
 	}
 
 	/** Fetch first matching record */
-	async findFirst(this: SelectQuery<T, null>): Promise<T | null>;
+	async findFirst(this: SelectQuery<T, null, Tbl, Ctx>): Promise<T | null>;
 
 	/** Fetch first matching record with selected fields */
 	async findFirst<Selection extends Partial<Record<keyof T, boolean>>>(
-		this: SelectQuery<T, Selection>
+		this: SelectQuery<T, Selection, Tbl, Ctx>
 	): Promise<SelectFields<T, Selection> | null>;
 
 	async findFirst() {
@@ -556,35 +906,29 @@ export class SelectQuery<
 		return new Promise((resolve, reject) => {
 			const { store } = this.#getStore();
 
-			// If we have an index-based where query, use it
-			if (this.#whereIndexName && !isUndefined(this.#whereIndexQuery)) {
-				const source = this.#buildIndexedStore(store, reject);
-
-				if (!source) return;
+			const plan = this.#plan(store, reject);
 
-				const request = source.getAll(this.#whereIndexQuery) as IDBRequest<T[]>;
+			if (!plan) return;
 
-				request.onsuccess = () => {
-					const results = this.#applyPipeline(request.result);
-					resolve(results.length > 0 ? results[0] : null);
-				};
-
-				request.onerror = () => reject(request.error);
-				return;
-			}
-
-			const request = store.getAll() as IDBRequest<T[]>;
+			const { source, range, filter } = plan;
+			const request = source.getAll(range) as IDBRequest<T[]>;
 
 			request.onsuccess = () => {
-				let results = request.result;
+				let results = this.#restore(request.result, source);
 
 				// Apply where filter
-				if (this.#whereCondition) {
-					results = results.filter(this.#whereCondition);
+				if (filter) {
+					results = results.filter(filter);
+				}
+
+				const [first] = this.#applyPipeline(results, store);
+
+				if (!first) {
+					resolve(null);
+					return;
 				}
 
-				const processed = this.#applyPipeline(results);
-				resolve(processed.length > 0 ? processed[0] : null);
+				this.#output(store, [first]).then(([row]) => resolve(row), reject);
 			};
 
 			request.onerror = () => reject(request.error);
@@ -593,18 +937,14 @@ export class SelectQuery<
 
 	/**
 	 * @instance Find record by primary key (optimized `IndexedDB` get)
-	 * @param key Primary key value
+	 * @param key Primary key value (tuple of values for composite primary keys)
 	 *
 	 * @remarks
 	 * - This method uses the `IndexedDB` primary key for efficient querying.
 	 * - Ensure that the specified key exists on the table.
 	 * - To find by index, use {@link findByIndex} instead.
 	 */
-	async findByPk(
-		key: $InferPrimaryKey<Tbl['columns']> extends keyof T ?
-			T[$InferPrimaryKey<Tbl['columns']>]
-		:	T[keyof T]
-	): Promise<
+	async findByPk(key: $PrimaryKeyValue<T, Tbl>): Promise<
 		S extends null ? T | null
 		: S extends Partial<Record<keyof T, boolean>> ? SelectFields<T, S> | null
 		: never
@@ -612,7 +952,14 @@ export class SelectQuery<
 		await this.#readyPromise;
 		return new Promise((resolve, reject) => {
 			const { store } = this.#getStore();
-			const request = store.get(key) as IDBRequest<T>;
+
+			// The primary key is the access path: all where clauses are checked in memory
+			const plan = this.#plan(store, reject, false);
+
+			if (!plan) return;
+
+			const { filter } = plan;
+			const request = store.get(key as IDBValidKey) as IDBRequest<T>;
 
 			type ResolvedData =
 				S extends null ? T | null
@@ -620,21 +967,26 @@ export class SelectQuery<
 				: never;
 
 			request.onsuccess = () => {
-				const result = request.result as Maybe<T>;
+				const stored = request.result as Maybe<T>;
 
-				if (!result) {
+				if (!stored) {
 					resolve(null as ResolvedData);
 					return;
 				}
 
+				const result = _restoreSets(stored, this.#storedSetFields);
+
 				// Apply where filter if specified
-				if (this.#whereCondition && !this.#whereCondition(result)) {
+				if (filter && !filter(result)) {
 					resolve(null as ResolvedData);
 					return;
 				}
 
-				// Apply projection
-				resolve(this.#projectRow(result) as ResolvedData);
+				// Load relations and apply projection
+				this.#output(store, [result]).then(
+					([row]) => resolve(row as ResolvedData),
+					reject
+				);
 			};
 
 			request.onerror = () => reject(request.error);
@@ -644,16 +996,19 @@ export class SelectQuery<
 	/**
 	 * @instance Find records by index (optimized `IndexedDB` index query)
 	 * @param indexName Name of the index to query
-	 * @param query Key value to search for
+	 * @param query Key value (tuple or tuple prefix for compound indexes) or {@link IDBKeyRange} to search for
 	 *
 	 * @remarks
 	 * - This method uses `IndexedDB` indexes for efficient querying.
 	 * - Ensure that the specified index exists on the table.
+	 * - Combined with {@link sortByIndex} on the same index, results are read with a single index cursor.
 	 * - To find by primary key, use {@link findByPk} instead.
 	 */
-	async findByIndex<IdxKey extends $InferIndex<Tbl['columns']> & keyof T & string>(
+	async findByIndex<
+		IdxKey extends ($InferIndex<Tbl['columns']> | $InferCompoundIndex<Tbl>) & string,
+	>(
 		indexName: IdxKey,
-		query: T[IdxKey] | IDBKeyRange
+		query: $IndexQueryValue<T, Tbl, IdxKey> | IDBKeyRange
 	): Promise<
 		S extends null ? T[]
 		: S extends Partial<Record<keyof T, boolean>> ? SelectFields<T, S>[]
@@ -674,20 +1029,45 @@ export class SelectQuery<
 			}
 
 			const index = store.index(indexName);
-			const request = index.getAll(query) as IDBRequest<T[]>;
+			const range = _toKeyRange(index.keyPath, query as IDBKeyRange | IDBValidKey);
+
+			// The queried index is the access path: all where clauses are checked in memory
+			const plan = this.#plan(store, reject, false);
+
+			if (!plan) return;
+
+			const { filter } = plan;
+
+			// Sorting by the queried index: walk a single index cursor in sort order
+			if (this.#useIndexCursor && this.#orderByKey === (indexName as string)) {
+				this.#readCursor(
+					index,
+					range,
+					filter,
+					resolve as (rows: Partial<T>[]) => void,
+					reject
+				);
+				return;
+			}
+
+			const request = index.getAll(range) as IDBRequest<T[]>;
 
 			request.onsuccess = () => {
-				let results = request.result;
+				let results = this.#restore(request.result, index);
 
 				// Apply where filter
-				if (this.#whereCondition) {
-					results = results.filter(this.#whereCondition);
+				if (filter) {
+					results = results.filter(filter);
 				}
 
-				resolve(
-					this.#applyPipeline(results) as S extends null ? T[]
-					: S extends Partial<Record<keyof T, boolean>> ? SelectFields<T, S>[]
-					: never
+				this.#output(store, this.#applyPipeline(results, store)).then(
+					(rows) =>
+						resolve(
+							rows as S extends null ? T[]
+							: S extends Partial<Record<keyof T, boolean>> ? SelectFields<T, S>[]
+							: never
+						),
+					reject
 				);
 			};
 
@@ -695,41 +1075,49 @@ export class SelectQuery<
 		});
 	}
 
-	/** @instance Count matching records */
+	/**
+	 * @instance Count matching records
+	 *
+	 * @remarks Ignores {@link limit} and {@link offset}, e.g. to compute the total number of pages.
+	 */
 	async count(): Promise<number> {
 		await this.#readyPromise;
 
 		return new Promise((resolve, reject) => {
 			const { store } = this.#getStore();
 
-			// If we have an index-based where query, use it
-			if (this.#whereIndexName && !isUndefined(this.#whereIndexQuery)) {
-				const source = this.#buildIndexedStore(store, reject);
+			const plan = this.#plan(store, reject);
 
-				if (!source) return;
+			if (!plan) return;
 
-				const request = source.count(this.#whereIndexQuery);
+			const { source, range, filter } = plan;
+
+			// If we have an in-memory filter, we need to get all and filter
+			if (filter) {
+				const request = source.getAll(range) as IDBRequest<T[]>;
+
+				request.onsuccess = () => {
+					resolve(this.#restore(request.result, source).filter(filter).length);
+				};
 
-				request.onsuccess = () => resolve(request.result);
 				request.onerror = () => reject(request.error);
 				return;
 			}
 
-			// If we have a predicate-based where condition, we need to get all and filter
-			if (this.#whereCondition) {
-				const request = store.getAll() as IDBRequest<T[]>;
+			// A multi-entry index counts a row once per matching element: count its primary keys
+			if (_isMultiEntrySource(source)) {
+				const request = source.getAllKeys(range);
 
 				request.onsuccess = () => {
-					const filtered = request.result.filter(this.#whereCondition!);
-					resolve(filtered.length);
+					resolve(new Set(request.result.map((key) => _keyId(key))).size);
 				};
 
 				request.onerror = () => reject(request.error);
 				return;
 			}
 
-			// No where conditions, use optimized count
-			const request = store.count();
+			// No in-memory filter, use optimized count
+			const request = source.count(range ?? undefined);
 
 			request.onsuccess = () => resolve(request.result);
 			request.onerror = () => reject(request.error);
@@ -741,22 +1129,556 @@ export class SelectQuery<
 
 		return count > 0;
 	}
-}
 
-/** @class Insert query builder. */
-export class InsertQuery<
-	Raw extends GenericObject,
-	Inserted extends Raw | Raw[],
-	Data extends GenericObject,
-	Return extends Inserted extends Array<infer _> ? Data[] : Data,
-> {
-	#table: string;
+	/**
+	 * @internal Get the primary key or (non multi-entry) index of a field, if the plan can be read through it in the field's order
+	 * @returns The source with the key range to read, `null` if the field must be read in memory
+	 */
+	#getFieldRead(
+		store: IDBObjectStore,
+		plan: QueryPlan<T>,
+		field: string
+	): { source: IDBObjectStore | IDBIndex; range: IDBKeyRange | IDBValidKey | null } | null {
+		const { source, range } = plan;
+		const fieldSource = _findSource(store, field);
+
+		if (!fieldSource || (fieldSource !== store && (fieldSource as IDBIndex).multiEntry)) {
+			return null;
+		}
+
+		const isSameSource =
+			fieldSource === store ?
+				source === store
+			:	source !== store && (source as IDBIndex).name === fieldSource.name;
+
+		if (isSameSource) return { source: fieldSource, range };
+
+		// No key range to read: walk the field's source instead
+		if (source === store && range === null) return { source: fieldSource, range: null };
+
+		return null;
+	}
+
+	/**
+	 * @internal Read the first row (projected, with relations) or only the key for each distinct value of a column, after offset and up to limit
+	 * - Without in-memory filter, the column's primary key or (non multi-entry) index is walked with a `nextunique`/`prevunique` cursor.
+	 */
+	async #readDistinct(column: keyof T & string, keysOnly: boolean): Promise<unknown[]> {
+		await this.#readyPromise;
+
+		return new Promise((resolve, reject) => {
+			const { store } = this.#getStore();
+
+			const plan = this.#plan(store, reject);
+
+			if (!plan) return;
+
+			const { source, range, filter } = plan;
+
+			const finish = (results: unknown[]) => {
+				if (keysOnly) {
+					resolve(results);
+				} else {
+					this.#output(store, results as T[]).then(resolve, reject);
+				}
+			};
+
+			// Ordering by another field: "first" row per value follows that order
+			const sortsByOther = !!this.#orderByKey && this.#orderByKey !== column;
+			const isDesc = !sortsByOther && this.#orderByDir === 'desc';
+			const fieldRead =
+				!filter && !sortsByOther && this.#getFieldRead(store, plan, column);
+
+			if (fieldRead) {
+				const direction = isDesc ? 'prevunique' : 'nextunique';
+				const request =
+					keysOnly ?
+						fieldRead.source.openKeyCursor(fieldRead.range, direction)
+					:	fieldRead.source.openCursor(fieldRead.range, direction);
+
+				const offset = this.#offsetCount ?? 0;
+				const results: unknown[] = [];
+
+				let skipped = false;
+
+				request.onsuccess = () => {
+					const cursor = request.result;
+
+					if (!cursor) {
+						finish(results);
+						return;
+					}
+
+					if (offset > 0 && !skipped) {
+						skipped = true;
+						cursor.advance(offset);
+						return;
+					}
+
+					results.push(
+						keysOnly ?
+							cursor.key
+						:	_restoreSets(
+								(cursor as IDBCursorWithValue).value as T,
+								this.#storedSetFields
+							)
+					);
+
+					if (this.#limitCount && results.length >= this.#limitCount) {
+						finish(results);
+						return;
+					}
+
+					cursor.continue();
+				};
+
+				request.onerror = () => reject(request.error);
+				return;
+			}
+
+			const request = source.getAll(range) as IDBRequest<T[]>;
+
+			request.onsuccess = () => {
+				let rows = this.#restore(request.result, source);
+
+				if (filter) {
+					rows = rows.filter(filter);
+				}
+
+				let distinct = _distinctRows(
+					sortsByOther ? this.#sort(rows, store) : rows,
+					column
+				);
+
+				if (!sortsByOther) {
+					distinct = distinct.sort(
+						(a, b) => _compareKeys(a[column], b[column]) * (isDesc ? -1 : 1)
+					);
+				}
+
+				finish(this.#slice(distinct).map((row) => (keysOnly ? row[column] : row)));
+			};
+
+			request.onerror = () => reject(request.error);
+		});
+	}
+
+	/**
+	 * @instance Get the distinct values of a column among the matching records
+	 * @param column Column to read the distinct values of
+	 * @returns Distinct values in key order (descending with `sortByIndex(column, 'desc')` or `orderBy(column, 'desc')`)
+	 *
+	 * @remarks
+	 * - On the primary key or an indexed column, values are read from the index with a unique key cursor, without loading rows.
+	 * - `null` and `undefined` values are skipped. {@link offset} and {@link limit} apply to the distinct values.
+	 *
+	 * @example
+	 * const categories = await db.from('products').distinct('category');
+	 */
+	async distinct<K extends keyof T & string>(column: K): Promise<NonNullable<T[K]>[]> {
+		return (await this.#readDistinct(column, true)) as NonNullable<T[K]>[];
+	}
+
+	/**
+	 * @instance Fetch the first matching record for each distinct value of a column
+	 * @param column Column to deduplicate by
+	 *
+	 * @remarks
+	 * - The first record per value is the one with the lowest primary key, or the first in {@link orderBy} order when ordering by another field.
+	 * - Without ordering by another field, records are returned in key order of the column.
+	 * - On the primary key or an indexed column, records are read with a unique index cursor when no in-memory filter is needed.
+	 * - Records with a `null` or `undefined` value are skipped. {@link offset} and {@link limit} apply to the distinct records.
+	 *
+	 * @example
+	 * const latestPerUser = await db.from('posts').orderBy('createdAt', 'desc').distinctBy('userId');
+	 */
+	async distinctBy<K extends keyof T & string>(
+		this: SelectQuery<T, null, Tbl, Ctx>,
+		column: K
+	): Promise<T[]>;
+
+	/** Fetch the first matching record (with selected fields) for each distinct value of a column */
+	async distinctBy<
+		K extends keyof T & string,
+		Selection extends Partial<Record<keyof T, boolean>>,
+	>(
+		this: SelectQuery<T, Selection, Tbl, Ctx>,
+		column: K
+	): Promise<SelectFields<T, Selection>[]>;
+
+	async distinctBy<K extends keyof T & string>(column: K): Promise<unknown[]> {
+		return this.#readDistinct(column, false);
+	}
+
+	/** @internal Read all rows matching the where clauses (ignores order, offset and limit) */
+	async #readMatching(): Promise<T[]> {
+		await this.#readyPromise;
+
+		return new Promise((resolve, reject) => {
+			const { store } = this.#getStore();
+
+			const plan = this.#plan(store, reject);
+
+			if (!plan) return;
+
+			const { source, range, filter } = plan;
+			const request = source.getAll(range) as IDBRequest<T[]>;
+
+			request.onsuccess = () => {
+				const rows = this.#restore(request.result, source);
+
+				resolve(filter ? rows.filter(filter) : rows);
+			};
+
+			request.onerror = () => reject(request.error);
+		});
+	}
+
+	/**
+	 * @internal Find the minimum or maximum of a field
+	 * - With the field's primary key or (non multi-entry) index as the read path, a cursor in the right direction stops at the first matching row.
+	 */
+	async #extreme<K extends keyof T & string>(
+		field: K,
+		kind: 'min' | 'max'
+	): Promise<T[K] | null> {
+		await this.#readyPromise;
+
+		return new Promise((resolve, reject) => {
+			const { store } = this.#getStore();
+
+			const plan = this.#plan(store, reject);
+
+			if (!plan) return;
+
+			const { source, range, filter } = plan;
+			const fieldRead = this.#getFieldRead(store, plan, field);
+
+			if (!fieldRead) {
+				const request = source.getAll(range) as IDBRequest<T[]>;
+
+				request.onsuccess = () => {
+					const rows = this.#restore(request.result, source);
+
+					resolve(
+						_extremeOf(filter ? rows.filter(filter) : rows, field, kind) as
+							T[K] | null
+					);
+				};
+
+				request.onerror = () => reject(request.error);
+				return;
+			}
+
+			const request = fieldRead.source.openCursor(
+				fieldRead.range,
+				kind === 'min' ? 'next' : 'prev'
+			);
+
+			request.onsuccess = () => {
+				const cursor = request.result;
+
+				if (!cursor) {
+					resolve(null);
+					return;
+				}
+
+				const row = _restoreSets(cursor.value as T, this.#storedSetFields);
+
+				if (filter && !filter(row)) {
+					cursor.continue();
+					return;
+				}
+
+				resolve(row[field] ?? null);
+			};
+
+			request.onerror = () => reject(request.error);
+		});
+	}
+
+	/**
+	 * @instance Sum a numeric field over the matching records
+	 * @param field Numeric field to sum
+	 * @returns The sum, `0` if there are no values
+	 *
+	 * @remarks `null` and `undefined` values are skipped. Ignores {@link orderBy}, {@link limit} and {@link offset}.
+	 *
+	 * @example
+	 * const revenue = await db.from('orders').where(eq('status', 'paid')).sum('amount');
+	 */
+	async sum<K extends $NumericKey<T>>(field: K): Promise<number> {
+		return _sumOf(await this.#readMatching(), field);
+	}
+
+	/**
+	 * @instance Average a numeric field over the matching records
+	 * @param field Numeric field to average
+	 * @returns The average, `null` if there are no values
+	 *
+	 * @remarks `null` and `undefined` values are skipped. Ignores {@link orderBy}, {@link limit} and {@link offset}.
+	 *
+	 * @example
+	 * const avgAge = await db.from('users').avg('age');
+	 */
+	async avg<K extends $NumericKey<T>>(field: K): Promise<number | null> {
+		return _avgOf(await this.#readMatching(), field);
+	}
+
+	/**
+	 * @instance Find the minimum value of a field over the matching records
+	 * @param field Field to compare (in `IndexedDB` key order)
+	 * @returns The minimum value, `null` if there are no values
+	 *
+	 * @remarks
+	 * - On the primary key or an indexed field, a single cursor step reads the minimum instead of scanning the table.
+	 * - `null` and `undefined` values are skipped. Ignores {@link orderBy}, {@link limit} and {@link offset}.
+	 *
+	 * @example
+	 * const youngest = await db.from('users').min('age');
+	 */
+	async min<K extends keyof T & string>(field: K): Promise<T[K] | null> {
+		return this.#extreme(field, 'min');
+	}
+
+	/**
+	 * @instance Find the maximum value of a field over the matching records
+	 * @param field Field to compare (in `IndexedDB` key order)
+	 * @returns The maximum value, `null` if there are no values
+	 *
+	 * @remarks
+	 * - On the primary key or an indexed field, a single cursor step reads the maximum instead of scanning the table.
+	 * - `null` and `undefined` values are skipped. Ignores {@link orderBy}, {@link limit} and {@link offset}.
+	 *
+	 * @example
+	 * const lastLogin = await db.from('users').max('lastLoginAt');
+	 */
+	async max<K extends keyof T & string>(field: K): Promise<T[K] | null> {
+		return this.#extreme(field, 'max');
+	}
+
+	/**
+	 * @instance Group the matching records by a field and aggregate each group
+	 * @param field Field to group by
+	 * @param aggregates Fields to `sum`, `avg`, `min` and `max` per group
+	 * @returns One row per distinct value of the field with its `key`, `count` and the requested aggregates, sorted by key
+	 *
+	 * @remarks Ignores {@link orderBy}, {@link limit} and {@link offset}.
+	 *
+	 * @example
+	 * const stats = await db
+	 *   .from('orders')
+	 *   .groupBy('status', { sum: ['amount'], max: ['createdAt'] });
+	 * // [{ key: 'paid', count: 12, sum: { amount: 340 }, max: { createdAt: '...' } }, ...]
+	 */
+	async groupBy<K extends keyof T & string, const A extends GroupAggregates<T> = {}>(
+		field: K,
+		aggregates?: A
+	): Promise<GroupByRow<T, K, A>[]> {
+		return _groupRows(await this.#readMatching(), field, aggregates) as GroupByRow<
+			T,
+			K,
+			A
+		>[];
+	}
+
+	/**
+	 * @instance Report how the query reads rows (as used by `findAll()`, `findFirst()` and `count()`)
+	 * @returns The chosen access path, key range, in-memory (residual) filters and sort strategy
+	 *
+	 * @remarks
+	 * - All `where()` clauses are combined with `AND`. The planner picks the most selective access path: single-key reads before ranges, then primary key, unique index and plain index.
+	 * - Clauses not enforced by the chosen key range are listed in `residual` and checked in memory.
+	 *
+	 * @example
+	 * const plan = await db
+	 *   .from('posts')
+	 *   .where(eq('userId', 5))
+	 *   .where((post) => post.published)
+	 *   .explain();
+	 * // { table: 'posts', access: 'index', index: 'userId', range: '= 5', residual: ['predicate'] }
+	 */
+	async explain(): Promise<QueryExplanation> {
+		await this.#readyPromise;
+
+		const { store } = this.#getStore();
+		const plan = _planQuery(store, this.#clauses(), this.#multiEntryFields);
+		const explanation = _explainPlan(store, plan);
+
+		if (this.#orderByKey) {
+			const sortIndex = this.#getSortIndex(store);
+			const { source, range } = plan;
+
+			// Same conditions as findAll() for reading with a sort index cursor
+			const usesSortIndex =
+				!!sortIndex &&
+				((source !== store && (source as IDBIndex).name === sortIndex) ||
+					(source === store && range === null));
+
+			explanation.sort = {
+				key: this.#orderByKey,
+				direction: this.#orderByDir,
+				using: usesSortIndex ? 'index' : 'memory',
+			};
+		}
+
+		if (this.#limitCount) {
+			explanation.limit = this.#limitCount;
+		}
+
+		if (this.#offsetCount) {
+			explanation.offset = this.#offsetCount;
+		}
+
+		return explanation;
+	}
+
+	/** @internal Primary key range read by the query, `null` if a change to any key of its table may affect it */
+	#getWatchedRange(): IDBKeyRange | IDBValidKey | null {
+		try {
+			const { store } = this.#getStore();
+			const plan = _planQuery(store, this.#clauses(), this.#multiEntryFields);
+
+			// Only reads of a primary key range can rule out changed keys
+			return plan.source === store ? plan.range : null;
+		} catch {
+			return null;
+		}
+	}
+
+	/** @internal Whether committed changes may affect the results (tables read, and the primary key `range` the query reads) */
+	#isAffected(changes: ChangeSet, range: IDBKeyRange | IDBValidKey | null): boolean {
+		for (const { table, keys } of changes) {
+			if (keys?.length === 0) continue;
+			if (this.#relationTables.includes(table)) return true;
+			if (table !== this.#table) continue;
+			if (keys === null || range === null) return true;
+
+			if (keys.some((key) => _isKeyInRange(range, key))) return true;
+		}
+
+		return false;
+	}
+
+	/** Subscribe to all matching records */
+	subscribe(
+		this: SelectQuery<T, null, Tbl, Ctx>,
+		callback: LiveQueryCallback<T>,
+		onError?: (error: unknown) => void
+	): Unsubscribe;
+
+	/** Subscribe to all matching records with selected fields */
+	subscribe<Selection extends Partial<Record<keyof T, boolean>>>(
+		this: SelectQuery<T, Selection, Tbl, Ctx>,
+		callback: LiveQueryCallback<SelectFields<T, Selection>>,
+		onError?: (error: unknown) => void
+	): Unsubscribe;
+
+	/**
+	 * @instance Subscribe to the results of the query (as returned by `findAll()`)
+	 * @param callback Receives the results once subscribed, then again after every committed write that may change them
+	 * @param onError Receives errors of the query and of `callback` (ignored without it)
+	 * @returns A function ending the subscription
+	 *
+	 * @remarks
+	 * - Writes by `insert()`, `update()`, `delete()`, `seed()`, `import()`, `clearTable()`, `clearAll()` and {@link Locality.transaction transactions} notify subscribers after they commit, once per transaction. Aborted writes notify nothing.
+	 * - The query re-runs when its table or a table of its `with()` relations changed, except when it reads a primary key range that none of the changed keys fall into.
+	 * - Writes arriving while the query runs are coalesced into a single re-run.
+	 * - Writes committed in other tabs are observed through the database's `BroadcastChannel`.
+	 * - Only writes made through `Locality` are observed: raw writes through `IDBTransaction`s (e.g. in hooks) are not.
+	 * - Not available inside {@link Locality.transaction transactions}.
+	 *
+	 * @example
+	 * const unsubscribe = db
+	 *   .from('todos')
+	 *   .where(eq('done', false))
+	 *   .subscribe((todos) => render(todos));
+	 *
+	 * // Later
+	 * unsubscribe();
+	 */
+	subscribe<Selection extends Partial<Record<keyof T, boolean>>>(
+		this: SelectQuery<T, Selection | null, Tbl, Ctx>,
+		callback: LiveQueryCallback<T> | LiveQueryCallback<SelectFields<T, Selection>>,
+		onError?: (error: unknown) => void
+	): Unsubscribe {
+		if (this.#transaction) {
+			throw new Error('subscribe() cannot be used inside a transaction.');
+		}
+
+		let active = true;
+		let running = false;
+		let stale = false;
+		let stopListening: Maybe<Unsubscribe>;
+
+		const run = () => {
+			if (running) {
+				stale = true;
+				return;
+			}
+
+			running = true;
+			stale = false;
+
+			(this as SelectQuery<T, null, Tbl, Ctx>)
+				.findAll()
+				.then((rows) => {
+					if (active) callback(rows as ForcedAny);
+				})
+				.catch((error: unknown) => {
+					if (active) onError?.(error);
+				})
+				.finally(() => {
+					running = false;
+
+					if (active && stale) run();
+				});
+		};
+
+		this.#readyPromise.then(
+			() => {
+				if (!active) return;
+
+				// Planned once per subscription
+				const range = this.#getWatchedRange();
+
+				stopListening = _onChanges(this.#dbGetter().name, ({ changes }) => {
+					if (this.#isAffected(changes, range)) run();
+				});
+
+				run();
+			},
+			(error: unknown) => {
+				if (active) onError?.(error);
+			}
+		);
+
+		return () => {
+			active = false;
+			stopListening?.();
+		};
+	}
+}
+
+/** @class Insert query builder. */
+export class InsertQuery<
+	Raw extends GenericObject,
+	Inserted extends Raw | Raw[],
+	Data extends GenericObject,
+	Return extends (Inserted extends Array<infer _> ? Data[] : Data) | ConflictResult<Data> =
+		Inserted extends Array<infer _> ? Data[] : Data,
+> {
+	#table: string;
 	#dbGetter: IDBGetter;
 	#readyPromise: Promise<void>;
 	#dataToInsert: Raw[] = [];
 	#columns?: ColumnDefinition;
-	// TODO: Handle multiple primary keys later
-	#keyPath?: string;
+	#keyPath?: KeyPath;
+	#foreignKeys: ForeignKey[];
+	#hooks: TableHooks;
+	#conflict?:
+		| ({ action: 'nothing' } & ConflictDoNothingOptions<Data>)
+		| ({ action: 'update' } & ConflictDoUpdateOptions<Raw, Data>);
 
 	#transaction?: IDBTransaction;
 
@@ -767,7 +1689,9 @@ export class InsertQuery<
 		dbGetter: IDBGetter,
 		readyPromise: Promise<void>,
 		columns?: ColumnDefinition,
-		keyPath?: string,
+		keyPath?: KeyPath,
+		foreignKeys: ForeignKey[] = [],
+		hooks: TableHooks = {},
 		transaction?: IDBTransaction
 	) {
 		this.#table = table;
@@ -775,134 +1699,336 @@ export class InsertQuery<
 		this.#readyPromise = readyPromise;
 		this.#columns = columns;
 		this.#keyPath = keyPath;
+		this.#foreignKeys = foreignKeys;
+		this.#hooks = hooks;
+
+		this.#transaction = transaction;
+	}
+
+	/**
+	 * @instance Sets the data to be inserted
+	 * @param data Data object or array of data objects to insert
+	 */
+	values<T extends Inserted>(data: T) {
+		this[IsArray] = Array.isArray(data);
+
+		this.#dataToInsert = (this[IsArray] ? data : [data]) as Raw[];
+
+		return this as InsertQuery<Raw, T, Data, T extends Array<infer _> ? Data[] : Data>;
+	}
+
+	/**
+	 * @instance Skip rows conflicting with existing rows instead of failing
+	 * @param options Key to check for conflicts (default: the primary key and every unique index)
+	 * @returns The query, now resolving to the inserted and skipped rows (call after {@link values})
+	 *
+	 * @remarks Rows are written in order, so a row conflicting with an earlier row of the batch is skipped too.
+	 *
+	 * @example
+	 * const { inserted, skipped } = await db
+	 *   .insert('users')
+	 *   .values(users)
+	 *   .onConflictDoNothing({ target: 'email' })
+	 *   .run();
+	 */
+	onConflictDoNothing(options: ConflictDoNothingOptions<Data> = {}) {
+		this.#conflict = { action: 'nothing', ...options };
+
+		return this as unknown as InsertQuery<Raw, Inserted, Data, ConflictResult<Data>>;
+	}
+
+	/**
+	 * @instance Update the existing row when a row conflicts on a key, instead of failing
+	 * @param options Key to check for conflicts (default: the primary key) and values to `set` on the existing row
+	 * @returns The query, now resolving to the inserted and updated rows (call after {@link values})
+	 *
+	 * @remarks
+	 * - Updated rows are validated like updates: `onUpdate()` columns and `beforeUpdate` hooks apply. The primary key cannot change.
+	 * - Rows are written in order, so a row conflicting with an earlier row of the batch updates it.
+	 * - A conflict on another unique index than `target` still fails the insert.
+	 *
+	 * @example
+	 * const { inserted, updated } = await db
+	 *   .insert('users')
+	 *   .values({ email: 'alice@wonderland.mad', name: 'Alice', logins: 1 })
+	 *   .onConflictDoUpdate({
+	 *     target: 'email',
+	 *     set: (existing, incoming) => ({ name: incoming.name, logins: existing.logins + 1 }),
+	 *   })
+	 *   .run();
+	 */
+	onConflictDoUpdate(options: ConflictDoUpdateOptions<Raw, Data>) {
+		this.#conflict = { action: 'update', ...options };
+
+		return this as unknown as InsertQuery<Raw, Inserted, Data, ConflictResult<Data>>;
+	}
+
+	/** @internal A prepared row as stored: `add()` sets auto-incremented keys on the stored copy only */
+	#withKey(store: IDBObjectStore, row: GenericObject, key: IDBValidKey): Data {
+		const { autoIncrement, keyPath } = store;
+
+		return (
+			autoIncrement && isNonEmptyString(keyPath) ?
+				{ ...row, [keyPath]: key }
+			:	row) as Data;
+	}
+
+	/** @internal Add rows, building the stored rows from the prepared rows and their keys */
+	async #addAll(store: IDBObjectStore, rows: GenericObject[]) {
+		const keys = await Promise.all(rows.map((row) => _settleRequest(store.add(row))));
+		const stored = rows.map((row, i) => this.#withKey(store, row, keys[i]));
+
+		return { keys, stored, updates: [], skipped: [] };
+	}
+
+	/**
+	 * @internal Add rows in order, resolving their conflicts with existing rows (including rows added before)
+	 * @returns The keys and stored rows of the added rows, the updates with the rows as stored before and after, and the skipped existing rows
+	 */
+	async #addResolvingConflicts(
+		store: IDBObjectStore,
+		rows: GenericObject[],
+		context: HookContext
+	) {
+		const conflict = this.#conflict!;
+		const sources = _conflictSources(store, conflict.target, conflict.action === 'update');
+		const storedSetFields = _getStoredSetFields(this.#columns);
+		const keyPath = store.keyPath as KeyPath;
+
+		const keys: IDBValidKey[] = [];
+		const stored: Data[] = [];
+		const updates: Array<{
+			key: IDBValidKey;
+			before: GenericObject;
+			after: GenericObject;
+		}> = [];
+		const skipped: GenericObject[] = [];
+
+		for (const row of rows) {
+			const existing = await _findConflict(sources, row);
+
+			if (!existing) {
+				const key = await _settleRequest(store.add(row));
+
+				keys.push(key);
+				stored.push(this.#withKey(store, row, key));
+				continue;
+			}
+
+			if (conflict.action === 'nothing') {
+				skipped.push(existing);
+				continue;
+			}
+
+			const current = _restoreSets(existing, storedSetFields);
+			const values =
+				isFunction(conflict.set) ?
+					conflict.set(current as Data, _restoreSets(row, storedSetFields) as Raw)
+				:	conflict.set;
+
+			const [merged] = await _runBeforeUpdate(
+				this.#hooks,
+				[{ ...current, ...values }],
+				[current],
+				context
+			);
+
+			const updated = validateAndPrepareData(
+				merged,
+				this.#columns,
+				this.#keyPath,
+				this.#table,
+				true
+			);
+			const key = _extractKey(existing, keyPath);
+
+			if (indexedDB.cmp(_extractKey(updated, keyPath), key) !== 0) {
+				throw new RangeError(
+					`onConflictDoUpdate() cannot change the primary key of table "${this.#table}".`
+				);
+			}
+
+			await _settleRequest(store.put(updated));
+			updates.push({ key, before: existing, after: updated });
+		}
+
+		return { keys, stored, updates, skipped };
+	}
+
+	/**
+	 * @internal Write rows in one transaction (or the transaction of the query)
+	 * @returns The inserted, updated and skipped rows, resolved once committed (or stored, in a transaction context)
+	 */
+	#write(toBeInserted: Raw[]): Promise<ConflictResult<Data>> {
+		return new Promise((resolve, reject) => {
+			const transaction =
+				this.#transaction ??
+				this.#dbGetter().transaction(
+					_writeScope(
+						this.#dbGetter(),
+						[this.#table, ..._getParentTables(this.#foreignKeys, this.#table)],
+						[this.#hooks]
+					),
+					'readwrite'
+				);
+			const store = transaction.objectStore(this.#table);
+			const context: HookContext = { table: this.#table, transaction };
+			const storedSetFields = _getStoredSetFields(this.#columns);
+
+			const result: ConflictResult<Data> = { inserted: [], updated: [], skipped: [] };
 
-		this.#transaction = transaction;
-	}
+			const inserted = _runBeforeInsert(this.#hooks, toBeInserted, context)
+				.then(async (rows) => {
+					const preparedRows = rows.map((data) =>
+						validateAndPrepareData(data, this.#columns, this.#keyPath, this.#table)
+					);
 
-	/**
-	 * @instance Sets the data to be inserted
-	 * @param data Data object or array of data objects to insert
-	 */
-	values<T extends Inserted>(data: T) {
-		this[IsArray] = Array.isArray(data);
+					const { keys, stored, updates, skipped } =
+						this.#conflict ?
+							await this.#addResolvingConflicts(store, preparedRows, context)
+						:	await this.#addAll(store, preparedRows);
 
-		this.#dataToInsert = (this[IsArray] ? data : [data]) as Raw[];
+					if (keys.length > 0 || !this.#conflict) {
+						_recordChanges(transaction, this.#table, 'insert', keys);
+					}
 
-		return this as InsertQuery<Raw, T, Data, T extends Array<infer _> ? Data[] : Data>;
+					if (updates.length > 0) {
+						_recordChanges(
+							transaction,
+							this.#table,
+							'update',
+							updates.map(({ key }) => key)
+						);
+					}
+
+					// Parents are checked after the writes, so rows referencing each other in one batch pass
+					await _checkParents(transaction, this.#foreignKeys, this.#table, [
+						...stored,
+						...updates.map(({ after }) => after),
+					]);
+
+					_logChanges(
+						transaction,
+						this.#table,
+						'insert',
+						stored.map((row, i) => ({ key: keys[i], before: null, after: row }))
+					);
+					_logChanges(transaction, this.#table, 'update', updates);
+
+					result.inserted = stored.map((row) => _restoreSets(row, storedSetFields));
+					result.updated = updates.map(({ after }) =>
+						_restoreSets(after as Data, storedSetFields)
+					);
+					result.skipped = skipped.map((row) =>
+						_restoreSets(row as Data, storedSetFields)
+					);
+
+					await this.#hooks.afterInsert?.(result.inserted, context);
+				})
+				.catch((error: unknown) => {
+					_rollbackTransaction(transaction);
+					throw error;
+				});
+
+			inserted.catch(reject);
+
+			if (this.#transaction) {
+				// In transaction context: resolve once the rows are stored
+				inserted.then(() => resolve(result), reject);
+			} else {
+				// Otherwise, resolve once the transaction is committed
+				transaction.oncomplete = () => resolve(result);
+			}
+
+			// Handle transaction abort (happens on errors like unique constraint violations)
+			transaction.onabort = () => _abortTransaction(transaction.error, reject);
+		});
 	}
 
 	/**
 	 * @instance Executes the insert query
-	 * @returns Inserted record(s)
+	 * @param options Whether to return the rows, chunk size and progress callback
+	 * @returns Inserted record(s), or the {@link ConflictResult} with conflict handling
+	 *
+	 * @remarks
+	 * - By default, all rows are written in one transaction: a failing row rolls every row back.
+	 * - With `chunkSize`, each chunk is committed in its own transaction (hooks, foreign key checks and conflict handling run per chunk): a failing chunk rolls back only itself, after `onProgress` reported the committed ones. Inside {@link Locality.transaction transactions}, chunks share the transaction.
+	 *
+	 * @example
+	 * await db.insert('events').values(events).run({
+	 *   returning: false,
+	 *   chunkSize: 5000,
+	 *   onProgress: ({ processed, total }) => console.log(`${processed}/${total}`),
+	 * });
 	 */
-	async run(): Promise<Return> {
-		await this.#readyPromise;
+	async run(options?: InsertRunOptions & { returning?: true }): Promise<Return>;
 
-		const toBeInserted = this.#dataToInsert;
+	/**
+	 * @instance Executes the insert query without collecting the rows
+	 * @param options Chunk size and progress callback
+	 * @returns Number of written rows (inserted, or updated by {@link onConflictDoUpdate})
+	 */
+	async run(options: InsertRunOptions & { returning: false }): Promise<number>;
 
-		if (toBeInserted.length === 0) {
-			return (this[IsArray] ? [] : {}) as Return;
-		}
+	async run(options?: InsertRunOptions): Promise<Return | number>;
 
-		return new Promise((resolve, reject) => {
-			const transaction =
-				this.#transaction ?? this.#dbGetter().transaction(this.#table, 'readwrite');
-			const store = transaction.objectStore(this.#table);
+	async run(options: InsertRunOptions = {}): Promise<Return | number> {
+		const { returning = true, chunkSize, onProgress } = options;
 
-			const insertedDocs: Data[] = [];
-			const insertedKeys: IDBValidKey[] = [];
-			let insertCompleted = 0;
+		if (!isUndefined(chunkSize) && !(Number.isInteger(chunkSize) && chunkSize > 0)) {
+			throw new RangeError(
+				`Chunk size must be a positive integer, received ${chunkSize}!`
+			);
+		}
 
-			// Start all insert operations
-			for (const data of toBeInserted) {
-				const request = store.add(
-					validateAndPrepareData(data, this.#columns, this.#keyPath, this.#table)
-				);
+		await this.#readyPromise;
 
-				request.onsuccess = () => {
-					insertedKeys.push(request.result);
-					insertCompleted++;
-
-					// When all inserts complete, read the data back
-					if (insertCompleted === toBeInserted.length) {
-						if (this.#transaction) {
-							// In transaction context: read from same transaction
-							let readCompleted = 0;
-
-							for (const key of insertedKeys) {
-								const getRequest = store.get(key) as IDBRequest<Data>;
-
-								getRequest.onsuccess = () => {
-									insertedDocs.push(getRequest.result);
-									readCompleted++;
-
-									if (readCompleted === insertedKeys.length) {
-										resolve(
-											(this[IsArray] ? insertedDocs : (
-												insertedDocs[0]
-											)) as Return
-										);
-									}
-								};
-
-								getRequest.onerror = () => reject(getRequest.error);
-							}
-						}
-						// If not in transaction context, oncomplete handler will read the data
-					}
-				};
+		const toBeInserted = this.#dataToInsert;
+		const total = toBeInserted.length;
+		const size = chunkSize ?? total;
 
-				request.onerror = () => reject(request.error);
-			}
+		const chunks: ConflictResult<Data>[] = [];
 
-			// If not in a transaction context, wait for transaction to complete and then read
-			if (!this.#transaction) {
-				transaction.oncomplete = () => {
-					// Retrieve all inserted documents after successful transaction
-					const readTx = this.#dbGetter().transaction(this.#table, 'readonly');
-					const readStore = readTx.objectStore(this.#table);
+		let written = 0;
 
-					let completed = 0;
+		for (let start = 0; start < total; start += size) {
+			const chunk = await this.#write(toBeInserted.slice(start, start + size));
 
-					for (const key of insertedKeys) {
-						const getRequest = readStore.get(key) as IDBRequest<Data>;
+			written += chunk.inserted.length + chunk.updated.length;
 
-						getRequest.onsuccess = () => {
-							insertedDocs.push(getRequest.result);
-							completed++;
+			// Rows are only collected when returned, so large inserts keep one chunk in memory
+			if (returning) chunks.push(chunk);
 
-							if (completed === insertedKeys.length) {
-								resolve(
-									(this[IsArray] ? insertedDocs : insertedDocs[0]) as Return
-								);
-							}
-						};
+			onProgress?.({ processed: Math.min(start + size, total), total });
+		}
 
-						getRequest.onerror = () => reject(getRequest.error);
-					}
-				};
-			}
+		if (!returning) return written;
 
-			// Handle transaction abort (happens on errors like unique constraint violations)
-			transaction.onabort = () => _abortTransaction(transaction.error, reject);
+		const result: ConflictResult<Data> = {
+			inserted: chunks.flatMap((chunk) => chunk.inserted),
+			updated: chunks.flatMap((chunk) => chunk.updated),
+			skipped: chunks.flatMap((chunk) => chunk.skipped),
+		};
 
-			transaction.onerror = () => reject(transaction.error);
-		});
+		return (
+			this.#conflict ? result
+			: this[IsArray] ? result.inserted
+			: (result.inserted[0] ?? {})) as Return;
 	}
 }
 
 /** @class Update query builder. */
-export class UpdateQuery<T extends GenericObject, S extends Table> {
+export class UpdateQuery<T extends GenericObject, S extends Table, R = number> {
 	#table: string;
 	#dbGetter: IDBGetter;
 	#readyPromise: Promise<void>;
-	#dataToUpdate?: InferUpdateType<S>;
-	#whereCondition?: WherePredicate<T>;
-	#whereIndexName?: string;
-	#whereIndexQuery?: IDBKeyRange | IDBValidKey;
+	#setters: UpdateSetter<T, InferUpdateType<S>>[] = [];
+	#whereClauses: WhereClause<T>[] = [];
 	#columns?: ColumnDefinition;
-	// TODO: Handle multiple primary keys later
-	#keyPath?: string;
+	#keyPath?: KeyPath;
+	#foreignKeys: ForeignKey[];
+	#hooks: TableHooks;
+	#returning?: Partial<Record<string, boolean>>;
 
 	#transaction?: IDBTransaction;
 
@@ -911,7 +2037,9 @@ export class UpdateQuery<T extends GenericObject, S extends Table> {
 		dbGetter: IDBGetter,
 		readyPromise: Promise<void>,
 		columns?: ColumnDefinition,
-		keyPath?: string,
+		keyPath?: KeyPath,
+		foreignKeys: ForeignKey[] = [],
+		hooks: TableHooks = {},
 		transaction?: IDBTransaction
 	) {
 		this.#table = table;
@@ -919,147 +2047,316 @@ export class UpdateQuery<T extends GenericObject, S extends Table> {
 		this.#readyPromise = readyPromise;
 		this.#columns = columns;
 		this.#keyPath = keyPath;
+		this.#foreignKeys = foreignKeys;
+		this.#hooks = hooks;
 		this.#transaction = transaction;
 	}
 
-	/** @internal Check if key is an index on the store for the `#whereIndexName` */
-	#isIndexKey(store: IDBObjectStore): boolean {
-		return (
-			isNonEmptyString(this.#whereIndexName) &&
-			store.indexNames.contains(this.#whereIndexName)
-		);
+	/** @internal Plan the read for the where clauses (source, key range and in-memory filter) */
+	#plan(store: IDBObjectStore, reject: RejectFn): QueryPlan<T> | null {
+		try {
+			return _planQuery(store, this.#whereClauses, _getMultiEntryFields(this.#columns));
+		} catch (error) {
+			reject(error);
+			return null;
+		}
 	}
 
-	/** @internal Check if key is the primary key on the store for the `#whereIndexName` */
-	#isPrimaryKey(store: IDBObjectStore): boolean {
-		return isNonEmptyString(this.#whereIndexName) && store.keyPath === this.#whereIndexName;
+	/**
+	 * @instance Sets the data to be updated
+	 * @param values Values to update, or a function computing them from each row
+	 *
+	 * @remarks
+	 * - Functions run per row inside the write transaction, so values computed from the row never race with other writes.
+	 * - Multiple `set()`, {@link increment}, {@link append} and {@link toggle} calls apply in order, each receiving the row as updated by the previous ones.
+	 *
+	 * @example
+	 * await db
+	 *   .update('posts')
+	 *   .set((post) => ({ title: post.title.trim(), views: post.views + 1 }))
+	 *   .wherePk(1)
+	 *   .run();
+	 */
+	set(values: UpdateSetter<T, InferUpdateType<S>>) {
+		if (isFunction(values) || isNotEmptyObject(values)) {
+			this.#setters.push(values);
+		}
+
+		return this;
 	}
 
-	/** @internal Build indexed store (primary key or index) for where queries */
-	#buildIndexedStore(store: IDBObjectStore, reject: RejectFn) {
-		const isPK = this.#isPrimaryKey(store);
-		const isIndex = this.#isIndexKey(store);
+	/**
+	 * @instance Add a number to a numeric column of each row
+	 * @param column Numeric column to increment (missing values count as `0`)
+	 * @param by Amount to add (negative to decrement, default: `1`)
+	 */
+	increment(column: $NumericKey<InferUpdateType<S>>, by = 1): this {
+		return this.set((row) => ({ [column]: (row[column] ?? 0) + by }) as InferUpdateType<S>);
+	}
 
-		if (!isPK && !isIndex) {
-			reject(
-				new RangeError(
-					`Index '${this.#whereIndexName}' does not exist on table '${this.#table}'`
-				)
-			);
+	/**
+	 * @instance Append values to an array or set column of each row
+	 * @param column Array or set column to append to (missing values start empty)
+	 * @param values Values to append
+	 */
+	append<K extends $CollectionKey<InferUpdateType<S>>>(
+		column: K,
+		...values: $CollectionItem<InferUpdateType<S>[K]>[]
+	): this {
+		const isSet = this.#columns?.[column]?.[ColumnType] === 'set';
 
-			return null;
-		}
+		return this.set((row) => {
+			const current: Iterable<unknown> = row[column] ?? [];
 
-		// Primary keys use store directly, indexes use store.index()
-		return isPK ? store : store.index(this.#whereIndexName as string);
+			return {
+				[column]:
+					current instanceof Set || isSet ?
+						new Set([...current, ...values])
+					:	[...current, ...values],
+			} as InferUpdateType<S>;
+		});
 	}
 
 	/**
-	 * @instance Sets the data to be updated
-	 * @param values Values to update
+	 * @instance Negate a boolean column of each row
+	 * @param column Boolean column to toggle (missing values become `true`)
 	 */
-	set(values: InferUpdateType<S>) {
-		this.#dataToUpdate = values;
-		return this;
+	toggle(column: $BooleanKey<InferUpdateType<S>>): this {
+		return this.set((row) => ({ [column]: !row[column] }) as InferUpdateType<S>);
+	}
+
+	/** @internal Apply the setters in order to a row, collecting the columns they set */
+	#applySetters(row: T, setColumns: Set<string>): T {
+		return this.#setters.reduce<T>((merged, setter) => {
+			const values = isFunction(setter) ? setter(merged) : setter;
+
+			for (const column of Object.keys(values)) {
+				setColumns.add(column);
+			}
+
+			return { ...merged, ...values };
+		}, row);
+	}
+
+	/** @internal Whether walking `source` may meet updated rows again: multi-entry indexes, or indexes whose fields the update may change */
+	#revisits(source: IDBObjectStore | IDBIndex): boolean {
+		if (!(source instanceof IDBIndex)) return false;
+		if (source.multiEntry || this.#hooks.beforeUpdate) return true;
+
+		const fields = [source.keyPath].flat();
+
+		return fields.some(
+			(field) =>
+				isFunction(this.#columns?.[field]?.[OnUpdate]) ||
+				this.#setters.some((setter) => isFunction(setter) || field in setter)
+		);
 	}
 
 	/**
 	 * @instance Filter rows to update
 	 * @param predicate Filtering function
+	 *
+	 * @remarks Multiple `where()` / `wherePk()` calls are combined with `AND`.
 	 */
 	where(predicate: WherePredicate<T>): this;
 
+	/**
+	 * @instance Filter rows to update by a query condition
+	 * @param condition Condition built with operators ({@link eq}, {@link gt}, {@link and} etc.)
+	 */
+	where(condition: QueryCondition<T>): this;
+
 	/**
 	 * @instance Filter rows to update by index
 	 * @param indexName Index name to query
-	 * @param query Key value or {@link IDBKeyRange} to search for
+	 * @param query Key value (tuple or tuple prefix for compound indexes) or {@link IDBKeyRange} to search for
 	 */
-	where<IdxKey extends $InferPrimaryKey<S['columns']> | $InferIndex<S['columns']>>(
-		indexName: IdxKey,
-		query: IDBKeyRange | T[IdxKey]
-	): this;
-
-	where<IdxKey extends $InferPrimaryKey<S['columns']> | $InferIndex<S['columns']>>(
-		condition: WherePredicate<T> | IdxKey,
-		query?: IDBKeyRange | T[IdxKey]
+	where<
+		IdxKey extends
+			$InferPrimaryKey<S['columns']> | $InferIndex<S['columns']> | $InferCompoundIndex<S>,
+	>(indexName: IdxKey, query: IDBKeyRange | $IndexQueryValue<T, S, IdxKey>): this;
+
+	where<
+		IdxKey extends
+			$InferPrimaryKey<S['columns']> | $InferIndex<S['columns']> | $InferCompoundIndex<S>,
+	>(
+		condition: WherePredicate<T> | QueryCondition<T> | IdxKey,
+		query?: IDBKeyRange | $IndexQueryValue<T, S, IdxKey>
 	): this {
 		if (isFunction(condition)) {
-			this.#whereCondition = condition;
-			this.#whereIndexName = undefined;
-			this.#whereIndexQuery = undefined;
+			this.#whereClauses.push({ kind: 'predicate', predicate: condition });
 		} else if (isNonEmptyString(condition) && !isUndefined(query)) {
-			this.#whereIndexName = condition;
-			this.#whereIndexQuery = query;
-			this.#whereCondition = undefined;
+			this.#whereClauses.push({
+				kind: 'index',
+				index: condition,
+				query: query as IDBKeyRange | IDBValidKey,
+			});
+		} else if (isObject(condition)) {
+			this.#whereClauses.push({ kind: 'condition', condition });
 		}
 
 		return this;
 	}
 
 	/**
-	 * @instance Executes the update query
-	 * @returns Number of records updated
+	 * @instance Filter rows to update by primary key
+	 * @param key Primary key value (tuple of values for composite primary keys) or {@link IDBKeyRange}
 	 */
-	async run(): Promise<number> {
-		await this.#readyPromise;
-
-		if (!isNotEmptyObject(this.#dataToUpdate)) {
-			throw new Error('No values set for update!');
+	wherePk(key: $PrimaryKeyValue<T, S> | IDBKeyRange): this {
+		if (isUndefined(this.#keyPath)) {
+			throw new RangeError(`Table '${this.#table}' does not have a primary key!`);
 		}
 
-		return new Promise((resolve, reject) => {
-			const transaction =
-				this.#transaction ?? this.#dbGetter().transaction(this.#table, 'readwrite');
-			const store = transaction.objectStore(this.#table);
+		this.#whereClauses.push({
+			kind: 'index',
+			index: this.#keyPath,
+			query: key as IDBKeyRange | IDBValidKey,
+		});
+
+		return this;
+	}
 
-			let request: IDBRequest<T[]>;
+	/**
+	 * @instance Resolve to the updated rows instead of their count
+	 * @returns The query, now resolving to the rows as stored after the update (`onUpdate()` columns and `beforeUpdate` hooks applied)
+	 */
+	returning(): UpdateQuery<T, S, T[]>;
 
-			if (this.#whereIndexName && !isUndefined(this.#whereIndexQuery)) {
-				const source = this.#buildIndexedStore(store, reject);
+	/**
+	 * @instance Resolve to selected fields of the updated rows instead of their count
+	 * @param cols Columns to return or exclude, like {@link SelectQuery.select select()}
+	 * @returns The query, now resolving to the projected rows as stored after the update
+	 *
+	 * @example
+	 * const renamed = await db
+	 *   .update('users')
+	 *   .set({ name: 'Alice' })
+	 *   .where(eq('email', 'alice@wonderland.mad'))
+	 *   .returning({ id: true, name: true })
+	 *   .run();
+	 */
+	returning<Selection extends Partial<Record<keyof T, boolean>>>(
+		cols: Selection
+	): UpdateQuery<T, S, SelectFields<T, Selection>[]>;
 
-				if (!source) return;
+	returning(cols: Partial<Record<keyof T, boolean>> = {}) {
+		this.#returning = cols as Partial<Record<string, boolean>>;
 
-				request = source.getAll(this.#whereIndexQuery) as IDBRequest<T[]>;
-			} else {
-				request = store.getAll() as IDBRequest<T[]>;
-			}
+		return this as unknown as UpdateQuery<T, S, unknown[]>;
+	}
 
-			let updateCount = 0;
+	/**
+	 * @instance Report how the query finds the rows to update
+	 * @returns The chosen access path, key range and in-memory (residual) filters
+	 */
+	async explain(): Promise<QueryExplanation> {
+		await this.#readyPromise;
 
-			request.onsuccess = () => {
-				let rows = request.result;
+		const store = (
+			this.#transaction ?? this.#dbGetter().transaction(this.#table, 'readonly')
+		).objectStore(this.#table);
 
-				if (this.#whereCondition) {
-					rows = rows.filter(this.#whereCondition);
-				}
+		return _explainPlan(
+			store,
+			_planQuery(store, this.#whereClauses, _getMultiEntryFields(this.#columns))
+		);
+	}
 
-				const updatePromises = rows.map((row) => {
-					return new Promise<void>((res, rej) => {
-						const updatedRow = validateAndPrepareData<T>(
-							{ ...row, ...this.#dataToUpdate },
-							this.#columns,
-							this.#keyPath,
-							this.#table,
-							true
-						);
+	/**
+	 * @instance Executes the update query
+	 * @returns Number of records updated, or the updated rows with {@link returning}
+	 */
+	async run(): Promise<R> {
+		await this.#readyPromise;
+
+		if (this.#setters.length === 0) {
+			throw new Error('No values set for update!');
+		}
 
-						const putRequest = store.put(updatedRow);
+		// Only foreign keys whose values may change need their parent tables in scope (computed values may set any column)
+		const staticColumns = new Set(
+			this.#setters.flatMap((setter) => (isFunction(setter) ? [] : Object.keys(setter)))
+		);
+		const isComputed = this.#setters.some((setter) => isFunction(setter));
+		const scopedForeignKeys = this.#foreignKeys.filter(
+			(fk) => fk.table === this.#table && (isComputed || staticColumns.has(fk.column))
+		);
 
-						putRequest.onsuccess = () => {
-							updateCount++;
-							res();
-						};
+		return new Promise<R>((resolve, reject) => {
+			const transaction =
+				this.#transaction ??
+				this.#dbGetter().transaction(
+					_writeScope(
+						this.#dbGetter(),
+						[this.#table, ..._getParentTables(scopedForeignKeys, this.#table)],
+						[this.#hooks]
+					),
+					'readwrite'
+				);
+			const store = transaction.objectStore(this.#table);
+			const context: HookContext = { table: this.#table, transaction };
+
+			const plan = this.#plan(store, reject);
+
+			if (!plan) return;
+
+			const storedSetFields = _getStoredSetFields(this.#columns);
+			const setColumns = new Set<string>();
+			const keys: IDBValidKey[] = [];
+			const returnedRows: Partial<T>[] = [];
+
+			// Rows are updated one at a time through the cursor: only their keys (and rows for `returning()`) are kept
+			_walkRows(plan, storedSetFields, this.#revisits(plan.source), (cursor, row) => {
+				const storedRow = cursor.value as T;
+
+				return _runBeforeUpdate(
+					this.#hooks,
+					[this.#applySetters(row, setColumns)],
+					[row],
+					context
+				).then(([nextRow]) => {
+					const updatedRow = validateAndPrepareData(
+						nextRow as T,
+						this.#columns,
+						this.#keyPath,
+						this.#table,
+						true
+					);
+
+					return _settleRequest(cursor.update(updatedRow)).then((key) => {
+						keys.push(key);
+						_logChanges(transaction, this.#table, 'update', [
+							{ key, before: storedRow, after: updatedRow },
+						]);
+
+						if (!isUndefined(this.#returning)) {
+							returnedRows.push(
+								_projectRow(
+									_restoreSets(updatedRow, storedSetFields),
+									this.#returning
+								)
+							);
+						}
 
-						putRequest.onerror = () => rej(putRequest.error);
+						// Only foreign keys whose values are changed need their parents checked
+						return _checkParents(
+							transaction,
+							scopedForeignKeys.filter((fk) => setColumns.has(fk.column)),
+							this.#table,
+							[updatedRow]
+						);
 					});
 				});
-
-				Promise.all(updatePromises)
-					.then(() => resolve(updateCount))
-					.catch((err) => reject(err));
-			};
-
-			request.onerror = () => reject(request.error);
+			})
+				.then(() => _recordChanges(transaction, this.#table, 'update', keys))
+				.catch((error: unknown) => {
+					_rollbackTransaction(transaction);
+					throw error;
+				})
+				.then(() =>
+					resolve((isUndefined(this.#returning) ? keys.length : returnedRows) as R)
+				)
+				.catch((err) => reject(err));
 
 			// Handle transaction abort (happens on errors)
 			transaction.onabort = () => _abortTransaction(transaction.error, reject);
@@ -1068,14 +2365,17 @@ export class UpdateQuery<T extends GenericObject, S extends Table> {
 }
 
 /** @class Delete query builder. */
-export class DeleteQuery<T extends GenericObject, Key extends keyof T, S extends Table> {
+export class DeleteQuery<T extends GenericObject, S extends Table, R = number> {
 	#table: string;
 	#dbGetter: IDBGetter;
 	#readyPromise: Promise<void>;
-	#keyField: Key;
-	#whereCondition?: WherePredicate<T>;
-	#whereIndexName?: string;
-	#whereIndexQuery?: IDBKeyRange | IDBValidKey;
+	#columns?: ColumnDefinition;
+	#keyPath?: KeyPath;
+	#foreignKeys: ForeignKey[];
+	#hooks: TableHooks;
+	#softDelete?: string;
+	#returning?: Partial<Record<string, boolean>>;
+	#whereClauses: WhereClause<T>[] = [];
 
 	#transaction?: IDBTransaction;
 
@@ -1083,146 +2383,397 @@ export class DeleteQuery<T extends GenericObject, Key extends keyof T, S extends
 		table: string,
 		dbGetter: IDBGetter,
 		readyPromise: Promise<void>,
-		keyField: Key,
+		columns?: ColumnDefinition,
+		keyPath?: KeyPath,
+		foreignKeys: ForeignKey[] = [],
+		hooks: TableHooks = {},
+		softDelete?: string,
 		transaction?: IDBTransaction
 	) {
 		this.#table = table;
 		this.#dbGetter = dbGetter;
 		this.#readyPromise = readyPromise;
-		this.#keyField = keyField;
+		this.#columns = columns;
+		this.#keyPath = keyPath;
+		this.#foreignKeys = foreignKeys;
+		this.#hooks = hooks;
+		this.#softDelete = softDelete;
 		this.#transaction = transaction;
 	}
 
-	/** @internal Check if key is an index on the store for the `#whereIndexName` */
-	#isIndexKey(store: IDBObjectStore): boolean {
-		return (
-			isNonEmptyString(this.#whereIndexName) &&
-			store.indexNames.contains(this.#whereIndexName)
-		);
-	}
-
-	/** @internal Check if key is the primary key on the store for the `#whereIndexName` */
-	#isPrimaryKey(store: IDBObjectStore): boolean {
-		return isNonEmptyString(this.#whereIndexName) && store.keyPath === this.#whereIndexName;
+	/** @internal Where clauses; soft deletes only match rows not deleted yet */
+	#clauses(): WhereClause<T>[] {
+		return [...this.#whereClauses, ..._softDeleteClauses<T>(this.#softDelete, 'exclude')];
 	}
 
-	/** @internal Build indexed store (primary key or index) for where queries */
-	#buildIndexedStore(store: IDBObjectStore, reject: RejectFn) {
-		const isPK = this.#isPrimaryKey(store);
-		const isIndex = this.#isIndexKey(store);
-
-		if (!isPK && !isIndex) {
-			reject(
-				new RangeError(
-					`Index '${this.#whereIndexName}' does not exist on table '${this.#table}'`
-				)
-			);
-
+	/** @internal Plan the read for the where clauses (source, key range and in-memory filter) */
+	#plan(store: IDBObjectStore, reject: RejectFn): QueryPlan<T> | null {
+		try {
+			return _planQuery(store, this.#clauses(), _getMultiEntryFields(this.#columns));
+		} catch (error) {
+			reject(error);
 			return null;
 		}
-
-		// Primary keys use store directly, indexes use store.index()
-		return isPK ? store : store.index(this.#whereIndexName as string);
 	}
 
 	/**
 	 * @instance Filter rows to delete
 	 * @param predicate Filtering function
+	 *
+	 * @remarks Multiple `where()` / `wherePk()` calls are combined with `AND`.
 	 */
 	where(predicate: WherePredicate<T>): this;
 
+	/**
+	 * @instance Filter rows to delete by a query condition
+	 * @param condition Condition built with operators ({@link eq}, {@link gt}, {@link and} etc.)
+	 */
+	where(condition: QueryCondition<T>): this;
+
 	/**
 	 * @instance Filter rows to delete by index
 	 * @param indexName Index name to query
-	 * @param query Key value or {@link IDBKeyRange} to search for
+	 * @param query Key value (tuple or tuple prefix for compound indexes) or {@link IDBKeyRange} to search for
 	 */
-	where<IdxKey extends $InferPrimaryKey<S['columns']> | $InferIndex<S['columns']>>(
-		indexName: IdxKey,
-		query: IDBKeyRange | T[IdxKey]
-	): this;
-
-	where<IdxKey extends $InferPrimaryKey<S['columns']> | $InferIndex<S['columns']>>(
-		condition: WherePredicate<T> | IdxKey,
-		query?: IDBKeyRange | T[IdxKey]
+	where<
+		IdxKey extends
+			$InferPrimaryKey<S['columns']> | $InferIndex<S['columns']> | $InferCompoundIndex<S>,
+	>(indexName: IdxKey, query: IDBKeyRange | $IndexQueryValue<T, S, IdxKey>): this;
+
+	where<
+		IdxKey extends
+			$InferPrimaryKey<S['columns']> | $InferIndex<S['columns']> | $InferCompoundIndex<S>,
+	>(
+		condition: WherePredicate<T> | QueryCondition<T> | IdxKey,
+		query?: IDBKeyRange | $IndexQueryValue<T, S, IdxKey>
 	): this {
 		if (isFunction(condition)) {
-			this.#whereCondition = condition;
-			this.#whereIndexName = undefined;
-			this.#whereIndexQuery = undefined;
+			this.#whereClauses.push({ kind: 'predicate', predicate: condition });
 		} else if (isNonEmptyString(condition) && !isUndefined(query)) {
-			this.#whereIndexName = condition;
-			this.#whereIndexQuery = query;
-			this.#whereCondition = undefined;
+			this.#whereClauses.push({
+				kind: 'index',
+				index: condition,
+				query: query as IDBKeyRange | IDBValidKey,
+			});
+		} else if (isObject(condition)) {
+			this.#whereClauses.push({ kind: 'condition', condition });
 		}
 
 		return this;
 	}
 
 	/**
-	 * @instance Executes the delete query
-	 * @returns Number of records deleted
+	 * @instance Filter rows to delete by primary key
+	 * @param key Primary key value (tuple of values for composite primary keys) or {@link IDBKeyRange}
+	 */
+	wherePk(key: $PrimaryKeyValue<T, S> | IDBKeyRange): this {
+		if (isUndefined(this.#keyPath)) {
+			throw new RangeError(`Table '${this.#table}' does not have a primary key!`);
+		}
+
+		this.#whereClauses.push({
+			kind: 'index',
+			index: this.#keyPath,
+			query: key as IDBKeyRange | IDBValidKey,
+		});
+
+		return this;
+	}
+
+	/**
+	 * @instance Resolve to the deleted rows instead of their count
+	 * @returns The query, now resolving to the rows as they were before deletion, read in the same transaction
 	 */
-	async run(): Promise<number> {
+	returning(): DeleteQuery<T, S, T[]>;
+
+	/**
+	 * @instance Resolve to selected fields of the deleted rows instead of their count
+	 * @param cols Columns to return or exclude, like {@link SelectQuery.select select()}
+	 * @returns The query, now resolving to the projected rows as they were before deletion
+	 *
+	 * @example
+	 * const removedIds = await db
+	 *   .delete('sessions')
+	 *   .where(lt('expiresAt', now))
+	 *   .returning({ id: true })
+	 *   .run();
+	 */
+	returning<Selection extends Partial<Record<keyof T, boolean>>>(
+		cols: Selection
+	): DeleteQuery<T, S, SelectFields<T, Selection>[]>;
+
+	returning(cols: Partial<Record<keyof T, boolean>> = {}) {
+		this.#returning = cols as Partial<Record<string, boolean>>;
+
+		return this as unknown as DeleteQuery<T, S, unknown[]>;
+	}
+
+	/** @internal Resolve to the number of deleted rows, or the rows themselves with `returning()` */
+	#result(rows: T[], count: number): R {
+		if (isUndefined(this.#returning)) return count as R;
+
+		return rows.map((row) => _projectRow(row, this.#returning)) as R;
+	}
+
+	/** @internal Whether the deleted rows are kept (for `afterDelete` and `returning()`) */
+	#keepsRows(): boolean {
+		return isFunction(this.#hooks.afterDelete) || !isUndefined(this.#returning);
+	}
+
+	/**
+	 * @instance Report how the query finds the rows to delete
+	 * @returns The chosen access path, key range and in-memory (residual) filters
+	 */
+	async explain(): Promise<QueryExplanation> {
 		await this.#readyPromise;
+
+		const store = (
+			this.#transaction ?? this.#dbGetter().transaction(this.#table, 'readonly')
+		).objectStore(this.#table);
+
+		return _explainPlan(
+			store,
+			_planQuery(store, this.#clauses(), _getMultiEntryFields(this.#columns))
+		);
+	}
+
+	/**
+	 * @internal Stamp the soft delete column of the matching rows instead of deleting them
+	 * - Foreign key delete policies do not apply, as the rows are kept. `afterDelete` receives the stamped rows.
+	 */
+	#softDeleteRows(column: string): Promise<R> {
 		return new Promise((resolve, reject) => {
 			const transaction =
-				this.#transaction ?? this.#dbGetter().transaction(this.#table, 'readwrite');
+				this.#transaction ??
+				this.#dbGetter().transaction(
+					_writeScope(this.#dbGetter(), [this.#table], [this.#hooks]),
+					'readwrite'
+				);
 			const store = transaction.objectStore(this.#table);
-			let request: IDBRequest<T[]> | IDBRequest<IDBValidKey[]>;
-			let useKeysOnly = false;
+			const context: HookContext = { table: this.#table, transaction };
+			const plan = this.#plan(store, reject);
+
+			if (!plan) return;
+
+			const storedSetFields = _getStoredSetFields(this.#columns);
+			const keepsRows = this.#keepsRows();
+			const deletedAt = getTimestamp();
+			const keys: IDBValidKey[] = [];
+			const rows: T[] = [];
+			const stampedRows: T[] = [];
+
+			// Stamping the column of the walked index moves rows ahead in it
+			const revisits =
+				_isMultiEntrySource(plan.source) ||
+				(plan.source instanceof IDBIndex &&
+					_isKeyPathField(plan.source.keyPath, column));
+
+			_walkRows(plan, storedSetFields, revisits, (cursor, row) => {
+				const storedRow = cursor.value as T;
+				const stampedRow = { ...storedRow, [column]: deletedAt };
+
+				return _settleRequest(cursor.update(stampedRow)).then((key) => {
+					keys.push(key);
+					_logChanges(transaction, this.#table, 'update', [
+						{ key, before: storedRow, after: stampedRow },
+					]);
+
+					if (keepsRows) {
+						rows.push(row);
+						stampedRows.push({ ...row, [column]: deletedAt });
+					}
+				});
+			})
+				.then(() => {
+					_recordChanges(transaction, this.#table, 'update', keys);
+
+					return this.#hooks.afterDelete?.(stampedRows, context);
+				})
+				.catch((error: unknown) => {
+					_rollbackTransaction(transaction);
+					throw error;
+				})
+				.then(() => resolve(this.#result(rows, keys.length)))
+				.catch((err) => reject(err));
+
+			// Handle transaction abort (happens on errors)
+			transaction.onabort = () => _abortTransaction(transaction.error, reject);
+		});
+	}
+
+	/**
+	 * @internal Delete the rows of a key (range) without reading them
+	 * - The whole table is cleared (recorded as a `clear`), a primary key range deleted at once.
+	 * - Through an index, the primary keys of its entries are read (once per row) and deleted.
+	 */
+	#deleteRange(
+		transaction: IDBTransaction,
+		store: IDBObjectStore,
+		source: IDBObjectStore | IDBIndex,
+		range: IDBKeyRange | IDBValidKey | null
+	): Promise<number> {
+		if (source === store && range === null) {
+			return _settleRequest(store.count()).then((count) => {
+				_recordChanges(transaction, this.#table, 'clear', null);
+
+				return _settleRequest(store.clear()).then(() => count);
+			});
+		}
 
-			if (this.#whereIndexName && !isUndefined(this.#whereIndexQuery)) {
-				const source = this.#buildIndexedStore(store, reject);
+		return _settleRequest(source.getAllKeys(range)).then((found) => {
+			const keys =
+				_isMultiEntrySource(source) ?
+					[...new Map(found.map((key) => [_keyId(key), key])).values()]
+				:	found;
 
-				if (!source) return;
+			_recordChanges(transaction, this.#table, 'delete', keys);
 
-				if (this.#whereCondition) {
-					request = source.getAll(this.#whereIndexQuery) as IDBRequest<T[]>;
-				} else {
-					useKeysOnly = true;
-					request = source.getAllKeys(this.#whereIndexQuery);
-				}
-			} else {
-				request = store.getAll() as IDBRequest<T[]>;
+			const requests =
+				source === store ?
+					[store.delete(range as IDBKeyRange | IDBValidKey)]
+				:	keys.map((key) => store.delete(key));
+
+			return Promise.all(requests.map((request) => _settleRequest(request))).then(
+				() => keys.length
+			);
+		});
+	}
+
+	/** @internal Apply the delete policies to a whole batch of stored rows, then delete them */
+	#deleteBatch(
+		transaction: IDBTransaction,
+		store: IDBObjectStore,
+		rows: T[],
+		keys: IDBValidKey[]
+	): Promise<void> {
+		return _applyDeletePolicies(transaction, this.#foreignKeys, this.#table, rows).then(
+			() => {
+				_logChanges(
+					transaction,
+					this.#table,
+					'delete',
+					rows.map((row, i) => ({ key: keys[i], before: row, after: null }))
+				);
+
+				return Promise.all(keys.map((key) => _settleRequest(store.delete(key)))).then(
+					() => undefined
+				);
 			}
+		);
+	}
 
-			let deleteCount = 0;
+	/**
+	 * @instance Executes the delete query
+	 * @returns Number of records deleted, or the deleted rows with {@link returning}
+	 *
+	 * @remarks
+	 * - Rows are deleted one at a time through a cursor, so matching rows are not all held in memory (unless `afterDelete` or `returning()` needs them).
+	 * - Without in-memory filter, `afterDelete`, `returning()`, change log or foreign keys referencing the table, rows are deleted without being read: a primary key range at once, an index key (range) by the primary keys of its entries, and all rows with `clear()`.
+	 * - In tables with a `softDelete` column, matching rows not deleted yet are stamped with the current timestamp instead of being removed. Use `forceDelete()` to remove rows.
+	 */
+	async run(): Promise<R> {
+		await this.#readyPromise;
 
-			request.onsuccess = () => {
-				const results = request.result;
-				let keys: IDBValidKey[] = [];
+		if (this.#softDelete) {
+			return this.#softDeleteRows(this.#softDelete);
+		}
 
-				if (useKeysOnly) {
-					keys = results as IDBValidKey[];
-				} else {
-					let rows = results as T[];
+		const dependentTables = _getDependentTables(this.#foreignKeys, this.#table);
+		const hasPolicies = this.#foreignKeys.some((fk) => fk.refTable === this.#table);
+		// Delete policies reaching back to this table need the whole batch, so rows being deleted are not restricted or cascaded to
+		const isBatched = this.#foreignKeys.some(
+			(fk) =>
+				fk.table === this.#table &&
+				(fk.refTable === this.#table || dependentTables.includes(fk.refTable))
+		);
 
-					if (this.#whereCondition) {
-						rows = rows.filter(this.#whereCondition);
-					}
+		return new Promise<R>((resolve, reject) => {
+			const transaction =
+				this.#transaction ??
+				this.#dbGetter().transaction(
+					_writeScope(
+						this.#dbGetter(),
+						[this.#table, ...dependentTables],
+						[this.#hooks]
+					),
+					'readwrite'
+				);
+			const store = transaction.objectStore(this.#table);
+			const context: HookContext = { table: this.#table, transaction };
+			const plan = this.#plan(store, reject);
+
+			if (!plan) return;
+
+			const keepsRows = this.#keepsRows();
+
+			if (
+				!plan.filter &&
+				!keepsRows &&
+				!hasPolicies &&
+				!_isChangeLogEnabled(transaction.db)
+			) {
+				this.#deleteRange(transaction, store, plan.source, plan.range)
+					.catch((error: unknown) => {
+						_rollbackTransaction(transaction);
+						throw error;
+					})
+					.then((count) => resolve(count as R))
+					.catch((err) => reject(err));
+			} else {
+				const storedSetFields = _getStoredSetFields(this.#columns);
+				const keys: IDBValidKey[] = [];
+				const rows: T[] = [];
+				const batch: T[] = [];
 
-					keys = rows.map((row) => row[this.#keyField]);
-				}
+				// Rows kept for a batch delete are met again at their other multi-entry index entries
+				const revisits = _isMultiEntrySource(plan.source);
+
+				// Delete policies of referencing rows run before each row is deleted, and `afterDelete` last, in the same transaction
+				_walkRows(plan, storedSetFields, revisits, (cursor, row) => {
+					const storedRow = cursor.value as T;
+					const key = cursor.primaryKey;
+
+					keys.push(key);
 
-				const deletePromises = keys.map((key) => {
-					return new Promise<void>((res, rej) => {
-						const delRequest = store.delete(key);
+					if (keepsRows) rows.push(row);
 
-						delRequest.onsuccess = () => {
-							deleteCount++;
-							res();
-						};
+					if (isBatched) {
+						batch.push(storedRow);
+						return Promise.resolve();
+					}
+
+					const policies =
+						hasPolicies ?
+							_applyDeletePolicies(transaction, this.#foreignKeys, this.#table, [
+								storedRow,
+							])
+						:	Promise.resolve();
 
-						delRequest.onerror = () => rej(delRequest.error);
+					return policies.then(() => {
+						_logChanges(transaction, this.#table, 'delete', [
+							{ key, before: storedRow, after: null },
+						]);
+
+						return _settleRequest(cursor.delete());
 					});
-				});
+				})
+					.then(() =>
+						isBatched ?
+							this.#deleteBatch(transaction, store, batch, keys)
+						:	undefined
+					)
+					.then(() => {
+						_recordChanges(transaction, this.#table, 'delete', keys);
 
-				Promise.all(deletePromises)
-					.then(() => resolve(deleteCount))
+						return this.#hooks.afterDelete?.(rows, context);
+					})
+					.catch((error: unknown) => {
+						_rollbackTransaction(transaction);
+						throw error;
+					})
+					.then(() => resolve(this.#result(rows, keys.length)))
 					.catch((err) => reject(err));
-			};
-
-			request.onerror = () => reject(request.error);
+			}
 
 			// Handle transaction abort (happens on errors)
 			transaction.onabort = () => _abortTransaction(transaction.error, reject);
@@ -0,0 +1,386 @@
+import { isObject } from 'nhb-toolbox';
+import { _getStoredSetFields, _isSoftDeleted, _restoreSets } from './helpers';
+import { _findSource, _isValidKey } from './planner';
+import type {
+	$InferRelations,
+	ColumnDefinition,
+	GenericObject,
+	Relation,
+	RelationGraph,
+	RelationHelpers,
+	RelationRecord,
+	RelationsBuilder,
+	SchemaDefinition,
+} from './types';
+
+/**
+ * * Declares relations between the tables of a schema for eager loading with `with()`.
+ * @param schema Schema created with {@link defineSchema}.
+ * @param builders Callbacks per table name, receiving `one()` and `many()` relation builders and returning the table's relations by name.
+ * @returns Relations to pass as `relations` in the {@link Locality} config.
+ *
+ * @remarks
+ * - `one(table, { field, references })`: a single record of `table` whose `references` equals `field` of this table (one-to-one or many-to-one).
+ * - `many(table, { field, references })`: all records of `table` whose `references` equals `field` of this table (one-to-many).
+ * - `many(table, { field, references, through: { table, field, references } })`: many-to-many through a join table, whose `through.field` matches `field` of this table and `through.references` matches `references` of the related table.
+ * - Related records are read through an index (or the primary key) on the matched field when there is one, otherwise with a full table scan.
+ *
+ * @example
+ * const schemaRelations = relations(schema, {
+ *   users: ({ many }) => ({
+ *     posts: many('posts', { field: 'id', references: 'userId' }),
+ *     roles: many('roles', {
+ *       field: 'id',
+ *       references: 'id',
+ *       through: { table: 'user_roles', field: 'userId', references: 'roleId' },
+ *     }),
+ *   }),
+ *   posts: ({ one, many }) => ({
+ *     author: one('users', { field: 'userId', references: 'id' }),
+ *     comments: many('comments', { field: 'id', references: 'postId' }),
+ *   }),
+ * });
+ *
+ * const db = new Locality({ dbName: 'blog', schema, relations: schemaRelations });
+ *
+ * const users = await db.from('users').with({ posts: { with: { comments: true } } }).findAll();
+ */
+export function relations<Schema extends SchemaDefinition, B extends RelationsBuilder<Schema>>(
+	schema: Schema,
+	builders: B
+): $InferRelations<B> {
+	const result = {} as Record<string, RelationRecord>;
+
+	for (const [tableName, builder] of Object.entries(builders)) {
+		if (!(tableName in schema)) {
+			throw new RangeError(`Cannot declare relations on unknown table "${tableName}".`);
+		}
+
+		const helpers: RelationHelpers<SchemaDefinition, string> = {
+			one: (table, config) => ({ kind: 'one', table, ...config }),
+			many: (table, config) => ({ kind: 'many', table, ...config }),
+		};
+
+		const tableRelations = (builder as (h: typeof helpers) => RelationRecord)(helpers);
+
+		for (const [name, relation] of Object.entries(tableRelations)) {
+			_validateRelation(schema, tableName, name, relation);
+		}
+
+		result[tableName] = tableRelations;
+	}
+
+	return result as $InferRelations<B>;
+}
+
+/** Ensure the tables and fields of a relation exist in the schema */
+function _validateRelation(
+	schema: SchemaDefinition,
+	tableName: string,
+	name: string,
+	relation: Relation
+) {
+	const { table, field, references, through } = relation;
+
+	const fields: Array<[string, string]> = [
+		[tableName, field],
+		[table, references],
+	];
+
+	if (through) {
+		fields.push([through.table, through.field], [through.table, through.references]);
+	}
+
+	for (const [table, column] of fields) {
+		if (!(table in schema)) {
+			throw new RangeError(
+				`Relation '${name}' on table "${tableName}" references unknown table "${table}".`
+			);
+		}
+
+		if (!(column in schema[table].columns)) {
+			throw new RangeError(
+				`Relation '${name}' on table "${tableName}" references unknown column '${column}' of table "${table}".`
+			);
+		}
+	}
+}
+
+/** Get a declared relation, throws if it does not exist */
+function _getRelation(graph: RelationGraph, table: string, name: string): Relation {
+	const relation = graph.relations[table]?.[name];
+
+	if (!relation) {
+		throw new RangeError(`Relation '${name}' does not exist on table "${table}".`);
+	}
+
+	return relation;
+}
+
+/** Nested relations of a `with()` option (`true` has none) */
+function _nestedWith(option: unknown): GenericObject | undefined {
+	return isObject(option) && isObject(option.with) ? option.with : undefined;
+}
+
+/**
+ * Collect the tables read when eager loading relations (for the transaction scope).
+ * @throws {RangeError} If a relation does not exist
+ */
+export function _collectRelationTables(
+	graph: RelationGraph,
+	table: string,
+	withOptions: GenericObject
+): string[] {
+	const tables = new Set<string>();
+
+	for (const [name, option] of Object.entries(withOptions)) {
+		if (!option) continue;
+
+		const relation = _getRelation(graph, table, name);
+		const nested = _nestedWith(option);
+
+		tables.add(relation.table);
+
+		if (relation.through) tables.add(relation.through.table);
+
+		if (nested) {
+			for (const nestedTable of _collectRelationTables(graph, relation.table, nested)) {
+				tables.add(nestedTable);
+			}
+		}
+	}
+
+	return [...tables];
+}
+
+/**
+ * Identity of a key for lookups in a `Map`: keys equal by `indexedDB.cmp` share an identity.
+ * - Numbers are their own identity; other keys are encoded with a type tag, so dates, strings, binary keys and arrays never collide.
+ */
+export function _keyId(key: IDBValidKey): unknown {
+	return typeof key === 'number' ? key : _encodeKey(key);
+}
+
+/** Encode a key as a type-tagged string */
+function _encodeKey(key: IDBValidKey): string {
+	if (typeof key === 'number') return `n${key}`;
+	if (typeof key === 'string') return `s${key}`;
+	if (key instanceof Date) return `d${key.getTime()}`;
+	if (Array.isArray(key)) return `a${JSON.stringify(key.map(_encodeKey))}`;
+
+	const bytes =
+		ArrayBuffer.isView(key) ?
+			new Uint8Array(key.buffer, key.byteOffset, key.byteLength)
+		:	new Uint8Array(key);
+
+	return `b${Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/** Distinct valid keys among the values of a field */
+export function _distinctKeys(rows: readonly GenericObject[], field: string): IDBValidKey[] {
+	const keys = new Map<unknown, IDBValidKey>();
+
+	for (const row of rows) {
+		const value: unknown = row[field];
+
+		if (_isValidKey(value)) keys.set(_keyId(value), value);
+	}
+
+	return [...keys.values()].sort((a, b) => indexedDB.cmp(a, b));
+}
+
+/** Group rows by the value of a field */
+function _groupByKey(
+	rows: readonly GenericObject[],
+	field: string
+): Map<unknown, GenericObject[]> {
+	const groups = new Map<unknown, GenericObject[]>();
+
+	for (const row of rows) {
+		const value: unknown = row[field];
+
+		if (!_isValidKey(value)) continue;
+
+		const id = _keyId(value);
+		const group = groups.get(id);
+
+		if (group) {
+			group.push(row);
+		} else {
+			groups.set(id, [row]);
+		}
+	}
+
+	return groups;
+}
+
+/**
+ * Read the records of a table whose field matches one of the given (sorted) keys.
+ * - With an index (or primary key) on the field, a single cursor jumps from key to key.
+ * - Otherwise the table is scanned.
+ * - `set` values are restored only when the table's columns are given, otherwise rows are returned as stored.
+ */
+export function _readByKeys(
+	transaction: IDBTransaction,
+	table: string,
+	field: string,
+	keys: IDBValidKey[],
+	columns?: ColumnDefinition
+): Promise<GenericObject[]> {
+	return new Promise((resolve, reject) => {
+		if (keys.length === 0) {
+			resolve([]);
+			return;
+		}
+
+		const store = transaction.objectStore(table);
+		const source = _findSource(store, field);
+		const setFields = _getStoredSetFields(columns);
+
+		if (!source) {
+			const wanted = new Set(keys.map(_keyId));
+			const request = store.getAll() as IDBRequest<GenericObject[]>;
+
+			request.onsuccess = () => {
+				resolve(
+					request.result
+						.filter(
+							(row) => _isValidKey(row[field]) && wanted.has(_keyId(row[field]))
+						)
+						.map((row) => _restoreSets(row, setFields))
+				);
+			};
+
+			request.onerror = () => reject(request.error);
+			return;
+		}
+
+		const request = source.openCursor(IDBKeyRange.bound(keys[0], keys[keys.length - 1]));
+		const rows: GenericObject[] = [];
+
+		let position = 0;
+
+		request.onsuccess = () => {
+			const cursor = request.result;
+
+			if (!cursor) {
+				resolve(rows);
+				return;
+			}
+
+			// Skip the keys without records
+			while (position < keys.length && indexedDB.cmp(keys[position], cursor.key) < 0) {
+				position++;
+			}
+
+			if (position === keys.length) {
+				resolve(rows);
+				return;
+			}
+
+			if (indexedDB.cmp(keys[position], cursor.key) === 0) {
+				rows.push(_restoreSets(cursor.value as GenericObject, setFields));
+				cursor.continue();
+			} else {
+				cursor.continue(keys[position]);
+			}
+		};
+
+		request.onerror = () => reject(request.error);
+	});
+}
+
+/** Read the related records of a schema table by keys, leaving out soft-deleted rows */
+async function _readRelated(
+	transaction: IDBTransaction,
+	graph: RelationGraph,
+	table: string,
+	field: string,
+	keys: IDBValidKey[]
+): Promise<GenericObject[]> {
+	const { columns, options } = graph.schema[table];
+	const rows = await _readByKeys(transaction, table, field, keys, columns);
+	const softDelete = options.softDelete;
+
+	return softDelete ? rows.filter((row) => !_isSoftDeleted(row, softDelete)) : rows;
+}
+
+/**
+ * Eager load relations onto rows of a table (mutates the rows).
+ * - Related records are read in batches: one lookup per relation (and join table), not per row.
+ * - Must run inside a transaction covering all tables from {@link _collectRelationTables}.
+ *
+ * @throws {RangeError} If a relation does not exist
+ */
+export async function _loadRelations(
+	transaction: IDBTransaction,
+	graph: RelationGraph,
+	table: string,
+	rows: GenericObject[],
+	withOptions: GenericObject
+): Promise<void> {
+	for (const [name, option] of Object.entries(withOptions)) {
+		if (!option) continue;
+
+		const {
+			kind,
+			table: related,
+			field,
+			references,
+			through,
+		} = _getRelation(graph, table, name);
+
+		const nested = _nestedWith(option);
+		const localKeys = _distinctKeys(rows, field);
+
+		if (through) {
+			const links = await _readRelated(
+				transaction,
+				graph,
+				through.table,
+				through.field,
+				localKeys
+			);
+
+			const targets = await _readRelated(
+				transaction,
+				graph,
+				related,
+				references,
+				_distinctKeys(links, through.references)
+			);
+
+			if (nested) await _loadRelations(transaction, graph, related, targets, nested);
+
+			const linksByKey = _groupByKey(links, through.field);
+			const targetsByKey = _groupByKey(targets, references);
+
+			for (const row of rows) {
+				const value: unknown = row[field];
+				const rowLinks =
+					_isValidKey(value) ? (linksByKey.get(_keyId(value)) ?? []) : [];
+
+				row[name] = rowLinks.flatMap((link) => {
+					const target: unknown = link[through.references];
+
+					return _isValidKey(target) ? (targetsByKey.get(_keyId(target)) ?? []) : [];
+				});
+			}
+
+			continue;
+		}
+
+		const targets = await _readRelated(transaction, graph, related, references, localKeys);
+
+		if (nested) await _loadRelations(transaction, graph, related, targets, nested);
+
+		const targetsByKey = _groupByKey(targets, references);
+
+		for (const row of rows) {
+			const value: unknown = row[field];
+			const matches = _isValidKey(value) ? (targetsByKey.get(_keyId(value)) ?? []) : [];
+
+			row[name] = kind === 'one' ? (matches[0] ?? null) : matches;
+		}
+	}
+}
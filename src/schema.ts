@@ -1,10 +1,14 @@
 import { Column, Table } from './core';
 import type {
+	$InferPrimaryKey,
+	$SelfColumnDefinition,
+	$TableOptionsArgs,
 	$UUID,
 	ColumnDefinition,
-	ColumnRecord,
+	ColumnIndexRecord,
 	Email,
 	GenericObject,
+	IndexDefinition,
 	List,
 	Numeric,
 	Timestamp,
@@ -14,9 +18,11 @@ import type {
 
 /**
  * * Defines a database schema from a given schema definition.
- * @param schema An object defining the schema, where each key is a table name and each value is a record of {@link column} definitions.
+ * @param schema An object defining the schema, where each key is a table name and each value is a record of {@link column} definitions or a {@link Table} created with {@link table}.
  * @returns An object mapping each table name to its corresponding {@link Table} instance.
  *
+ * @remarks Use {@link table} as a value to declare table-level options such as compound indexes. The schema key is always used as the table (store) name.
+ *
  * @example
  * const schema = defineSchema({
  *   users: {
@@ -45,24 +51,26 @@ import type {
  * type UpdatePost = InferUpdateType<typeof schema.posts>;
  */
 export function defineSchema<Schema>(schema: Schema): {
-	[K in keyof Schema]: Table<Extract<Schema[K], ColumnDefinition>>;
+	[K in keyof Schema]: Schema[K] extends Table<any, any> ? Schema[K]
+	:	Table<Extract<Schema[K], ColumnDefinition>>;
 } {
-	const result = {} as { [K in keyof Schema]: Table<Extract<Schema[K], ColumnDefinition>> };
+	const result = {} as Record<string, Table<ColumnDefinition, any>>;
 
-	for (const [tableName, columns] of Object.entries(schema as ColumnRecord)) {
-		result[tableName as keyof Schema] = new Table(
-			tableName,
-			columns as Extract<Schema[keyof Schema], ColumnDefinition>
-		);
+	for (const [tableName, def] of Object.entries(schema as Record<string, unknown>)) {
+		result[tableName] =
+			def instanceof Table ?
+				new Table(tableName, def.columns, def.options)
+			:	new Table(tableName, def as ColumnDefinition);
 	}
 
-	return result;
+	return result as ReturnType<typeof defineSchema<Schema>>;
 }
 
 /**
  * * Factory function to create a new {@link Table} instance.
  * @param name The name of the table.
  * @param columns An object defining the columns of the table using {@link column} definitions.
+ * @param options Optional table-level options such as named compound {@link index indexes}, lifecycle `hooks` and the `softDelete` column; required for composite primary keys, whose column order is given by `primaryKey`.
  * @returns A new {@link Table} instance representing the table schema.
  *
  * @example
@@ -72,9 +80,85 @@ export function defineSchema<Schema>(schema: Schema): {
  *   createdAt: column.timestamp(),
  *   isActive: column.bool().default(true),
  * });
+ *
+ * // With compound indexes
+ * const orderTable = table(
+ *   'orders',
+ *   {
+ *     id: column.int().pk().auto(),
+ *     tenantId: column.text(),
+ *     number: column.int(),
+ *     createdAt: column.timestamp(),
+ *   },
+ *   {
+ *     indexes: {
+ *       tenantCreated: index(['tenantId', 'createdAt']),
+ *       tenantNumber: unique(['tenantId', 'number']),
+ *     },
+ *   }
+ * );
+ *
+ * // With a composite primary key, in `primaryKey` order
+ * const userRoleTable = table(
+ *   'user_roles',
+ *   {
+ *     userId: column.int().pk(),
+ *     roleId: column.int().pk(),
+ *   },
+ *   { primaryKey: ['userId', 'roleId'] }
+ * );
+ *
+ * // With lifecycle hooks
+ * const accountTable = table(
+ *   'accounts',
+ *   {
+ *     id: column.int().pk().auto(),
+ *     email: column.text(),
+ *   },
+ *   {
+ *     hooks: {
+ *       beforeInsert: (account) => ({ ...account, email: account.email.toLowerCase() }),
+ *     },
+ *   }
+ * );
+ */
+export function table<
+	T extends ColumnDefinition & $SelfColumnDefinition<T>,
+	I extends ColumnIndexRecord<T> = {},
+	const P extends readonly ($InferPrimaryKey<T> & string)[] = [],
+>(name: string, columns: T, ...[options]: $TableOptionsArgs<T, I, P>) {
+	return new Table(name, columns, options);
+}
+
+/**
+ * * Creates a table-level (compound) index definition for {@link table} options.
+ * @param columns Column names forming the index key path, in order.
+ * @returns An {@link IndexDefinition} for a non-unique index.
+ *
+ * @remarks
+ * - The index name is the key under which the definition is placed in `indexes`.
+ * - Query compound indexes with a tuple of values (or a leading prefix of it) in the same column order.
+ * - `IndexedDB` does not index records where any of the indexed values is missing or not a valid key.
+ *
+ * @example
+ * indexes: { tenantCreated: index(['tenantId', 'createdAt']) }
+ */
+export function index<const K extends readonly string[]>(columns: K): IndexDefinition<K> {
+	return { columns, unique: false };
+}
+
+/**
+ * * Creates a table-level (compound) unique constraint for {@link table} options.
+ * @param columns Column names whose combined values must be unique, in order.
+ * @returns An {@link IndexDefinition} for a unique index.
+ *
+ * @remarks Same as {@link index} but the combined values must be unique across the table.
+ *
+ * @example
+ * indexes: { tenantNumber: unique(['tenantId', 'number']) }
  */
-export function table<T extends ColumnDefinition>(name: string, columns: T) {
-	return new Table(name, columns);
+export function unique<const K extends readonly string[]>(columns: K): IndexDefinition<K> {
+	return { columns, unique: true };
 }
 
 /**
@@ -0,0 +1,277 @@
+import { _CHANGES_STORE } from './changelog';
+import { _ensureIndexedDB, _isSameKeyPath, _settleRequest } from './helpers';
+import type {
+	IndexConfig,
+	SchemaDiff,
+	SchemaIndexRef,
+	SchemaSyncPolicy,
+	StoreConfig,
+	StoredSchema,
+} from './types';
+import { getTimestamp } from './utils';
+
+/** Name of the metadata store holding the schema snapshot (never part of a schema diff) */
+export const _META_STORE = '__locality_meta__';
+
+/** Key of the schema snapshot in the metadata store */
+const _SCHEMA_KEY = 'schema';
+
+/** Check if an existing index matches its schema config */
+function _isSameIndex(index: IDBIndex, config: IndexConfig): boolean {
+	return (
+		_isSameKeyPath(index.keyPath, config.keyPath) &&
+		index.unique === (config.unique ?? false) &&
+		index.multiEntry === (config.multiEntry ?? false)
+	);
+}
+
+/**
+ * Compute the differences between the stores and indexes of the database and the schema.
+ * - Must run inside the `versionchange` transaction, before any change is applied.
+ */
+export function _diffSchema(
+	db: IDBDatabase,
+	transaction: IDBTransaction,
+	stores: StoreConfig[],
+	oldVersion: number
+): SchemaDiff {
+	const diff: SchemaDiff = {
+		oldVersion,
+		newVersion: db.version,
+		addedStores: [],
+		removedStores: [],
+		changedStores: [],
+		addedIndexes: [],
+		removedIndexes: [],
+		changedIndexes: [],
+	};
+
+	const schemaStoreNames = new Set(stores.map((store) => store.name));
+
+	for (const store of stores) {
+		if (!db.objectStoreNames.contains(store.name)) {
+			diff.addedStores.push(store.name);
+			continue;
+		}
+
+		const objectStore = transaction.objectStore(store.name);
+
+		if (
+			!_isSameKeyPath(objectStore.keyPath, store.keyPath) ||
+			objectStore.autoIncrement !== (store.autoIncrement ?? false)
+		) {
+			diff.changedStores.push(store.name);
+			continue;
+		}
+
+		const indexes = store.indexes ?? [];
+
+		for (const index of indexes) {
+			const ref = { store: store.name, index: index.name };
+
+			if (!objectStore.indexNames.contains(index.name)) {
+				diff.addedIndexes.push(ref);
+			} else if (!_isSameIndex(objectStore.index(index.name), index)) {
+				diff.changedIndexes.push(ref);
+			}
+		}
+
+		for (const indexName of Array.from(objectStore.indexNames)) {
+			if (!indexes.some(({ name }) => name === indexName)) {
+				diff.removedIndexes.push({ store: store.name, index: indexName });
+			}
+		}
+	}
+
+	for (const existingStore of Array.from(db.objectStoreNames)) {
+		if (
+			!schemaStoreNames.has(existingStore) &&
+			existingStore !== _META_STORE &&
+			existingStore !== _CHANGES_STORE
+		) {
+			diff.removedStores.push(existingStore);
+		}
+	}
+
+	return diff;
+}
+
+/** Describe stores and indexes of a diff for error messages */
+function _describeChanges(label: string, items: Array<string | SchemaIndexRef>): string[] {
+	if (items.length === 0) return [];
+
+	const names = items.map((item) =>
+		typeof item === 'string' ? `"${item}"` : `'${item.index}' of "${item.store}"`
+	);
+
+	return [`${label}: ${names.join(', ')}`];
+}
+
+/**
+ * Ensure the sync policy allows the changes of a diff.
+ * - `'strict'`: only additions are allowed.
+ * - `'preserve'`: stores whose primary key changed cannot be recreated.
+ * - `'destructive'`: everything is allowed.
+ *
+ * @throws {Error} If the policy does not allow a change
+ */
+export function _assertSyncPolicy(diff: SchemaDiff, policy: SchemaSyncPolicy): void {
+	if (policy === 'strict') {
+		const changes = [
+			..._describeChanges('removed stores', diff.removedStores),
+			..._describeChanges('changed stores', diff.changedStores),
+			..._describeChanges('removed indexes', diff.removedIndexes),
+			..._describeChanges('changed indexes', diff.changedIndexes),
+		];
+
+		if (changes.length > 0) {
+			throw new Error(
+				`Schema sync policy 'strict' does not allow removing or changing stores and indexes (${changes.join('; ')}).`
+			);
+		}
+	}
+
+	if (policy === 'preserve' && diff.changedStores.length > 0) {
+		const names = diff.changedStores.map((name) => `"${name}"`).join(', ');
+
+		throw new Error(
+			`Schema sync policy 'preserve' cannot change the primary key of existing stores: ${names}. Use the 'destructive' policy to recreate them (deleting their records), or move the records to a new table with a migration.`
+		);
+	}
+}
+
+/** Read the actual store and index layout of a database */
+export function _readStoreLayout(db: IDBDatabase): StoreConfig[] {
+	const storeNames = Array.from(db.objectStoreNames).filter((name) => name !== _META_STORE);
+
+	if (storeNames.length === 0) return [];
+
+	const transaction = db.transaction(storeNames, 'readonly');
+
+	return storeNames.map((name) => {
+		const store = transaction.objectStore(name);
+
+		const indexes = Array.from(store.indexNames).map((indexName): IndexConfig => {
+			const index = store.index(indexName);
+
+			return {
+				name: indexName,
+				keyPath: index.keyPath,
+				unique: index.unique,
+				multiEntry: index.multiEntry,
+			};
+		});
+
+		return {
+			name,
+			keyPath: store.keyPath ?? undefined,
+			autoIncrement: store.autoIncrement,
+			indexes: indexes.length > 0 ? indexes : undefined,
+		};
+	});
+}
+
+/** Store and index layout in a canonical order, with defaults filled in */
+function _normalizeLayout(stores: StoreConfig[]): StoreConfig[] {
+	const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+
+	return [...stores].sort(byName).map((store) => ({
+		name: store.name,
+		keyPath: store.keyPath,
+		autoIncrement: store.autoIncrement ?? false,
+		indexes: [...(store.indexes ?? [])].sort(byName).map((index) => ({
+			name: index.name,
+			keyPath: index.keyPath,
+			unique: index.unique ?? false,
+			multiEntry: index.multiEntry ?? false,
+		})),
+	}));
+}
+
+/** Hash the store and index layout (FNV-1a, independent of store and index order) */
+export function _fingerprint(stores: StoreConfig[]): string {
+	const text = JSON.stringify(_normalizeLayout(stores));
+
+	let hash = 0x811c9dc5;
+
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193) >>> 0;
+	}
+
+	return hash.toString(16).padStart(8, '0');
+}
+
+/** Store the snapshot of the layout, creating the metadata store if needed (inside the `versionchange` transaction) */
+export function _writeStoredSchema(
+	db: IDBDatabase,
+	transaction: IDBTransaction,
+	stores: StoreConfig[]
+): void {
+	const metaStore =
+		db.objectStoreNames.contains(_META_STORE) ?
+			transaction.objectStore(_META_STORE)
+		:	db.createObjectStore(_META_STORE);
+
+	const snapshot: StoredSchema = {
+		fingerprint: _fingerprint(stores),
+		version: db.version,
+		stores: _normalizeLayout(stores),
+		updatedAt: getTimestamp(),
+	};
+
+	metaStore.put(snapshot, _SCHEMA_KEY);
+}
+
+/** Read the stored schema snapshot (`null` if there is none) */
+export async function _readStoredSchema(db: IDBDatabase): Promise<StoredSchema | null> {
+	if (!db.objectStoreNames.contains(_META_STORE)) return null;
+
+	const request = db
+		.transaction(_META_STORE, 'readonly')
+		.objectStore(_META_STORE)
+		.get(_SCHEMA_KEY) as IDBRequest<StoredSchema | undefined>;
+
+	return (await _settleRequest(request)) ?? null;
+}
+
+/**
+ * Resolve the version to open a database with, bumping it when the layout differs from the stored snapshot.
+ * - A database that does not exist yet is not created, and opens with `minVersion`.
+ * - Without a snapshot, the layout counts as changed.
+ */
+export function _resolveAutoVersion(
+	name: string,
+	stores: StoreConfig[],
+	minVersion: number
+): Promise<number> {
+	return new Promise((resolve, reject) => {
+		_ensureIndexedDB();
+
+		const request = window.indexedDB.open(name);
+
+		// The database does not exist yet: cancel its creation
+		request.onupgradeneeded = () => request.transaction?.abort();
+
+		request.onsuccess = () => {
+			const db = request.result;
+
+			_readStoredSchema(db)
+				.then((snapshot) => {
+					const isChanged = snapshot?.fingerprint !== _fingerprint(stores);
+
+					resolve(Math.max(minVersion, isChanged ? db.version + 1 : db.version));
+				})
+				.catch(reject)
+				.finally(() => db.close());
+		};
+
+		request.onerror = () => {
+			if (request.error?.name === 'AbortError') {
+				resolve(minVersion);
+			} else {
+				reject(request.error);
+			}
+		};
+	});
+}
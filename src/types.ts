@@ -1,8 +1,10 @@
 import type {
 	Column,
+	ColumnType,
 	DefaultValue,
 	IsAutoInc,
 	IsIndexed,
+	IsMultiEntry,
 	IsNullable,
 	IsOptional,
 	IsPrimaryKey,
@@ -82,6 +84,14 @@ export type List<T = any> = ReadonlyArray<T>;
 export type $UnionToIntersection<U> =
 	(U extends any ? (arg: U) => void : never) extends (arg: infer I) => void ? I : never;
 
+/** Whether `T` is a union of more than one member */
+export type $IsUnion<T, U = T> =
+	T extends unknown ?
+		[U] extends [T] ?
+			false
+		:	true
+	:	never;
+
 /** Gets the "last" item of a union */
 type $LastOf<T> =
 	$UnionToIntersection<T extends any ? () => T : never> extends () => infer R ? R : never;
@@ -158,6 +168,12 @@ export type ValidatorFn<T = any> = (value: T) => string | null | undefined;
 /** Updater function type for {@link Column.onUpdate()} */
 export type UpdaterFn<T = any> = (currentValue: T) => T;
 
+/**
+ * Default value generator type for {@link Column.default()} and {@link Column.$defaultFn()}, called with the row prepared so far.
+ * - Functions taking other arguments (e.g. `uuidV4(uppercase)`) must be wrapped: `() => uuidV4()`.
+ */
+export type DefaultFn<T = any> = (row: Readonly<GenericObject>) => T;
+
 /** Asynchronous function type */
 export type AsyncFunction<T> = (...args: any[]) => Promise<T>;
 
@@ -311,6 +327,110 @@ export type PageResult<T, Selection extends Partial<Record<keyof T, boolean>> |
 	nextCursor: Maybe<IDBValidKey>;
 };
 
+/** Primary key or unique index (column or compound index name) whose conflicts an insert resolves */
+export type ConflictTarget<T> = LooseLiteral<keyof T & string>;
+
+/** Options of `onConflictDoNothing()` */
+export type ConflictDoNothingOptions<T> = {
+	/** Only skip rows conflicting on this key (default: the primary key and every unique index) */
+	target?: ConflictTarget<T>;
+};
+
+/** Options of `onConflictDoUpdate()` */
+export type ConflictDoUpdateOptions<Raw, T> = {
+	/** Key whose conflicts update the existing row (default: the primary key) */
+	target?: ConflictTarget<T>;
+	/** Values merged into the existing row, or a function returning them from the existing and the incoming row */
+	set: Partial<T> | ((existing: T, incoming: Raw) => Partial<T>);
+};
+
+/** Outcome of an insert resolving conflicts, rows in input order */
+export type ConflictResult<T> = {
+	/** Inserted rows */
+	inserted: T[];
+	/** Existing rows updated by `onConflictDoUpdate()`, after the update */
+	updated: T[];
+	/** Existing rows left unchanged by `onConflictDoNothing()` */
+	skipped: T[];
+};
+
+/** Progress of an insert, reported after each written chunk */
+export type InsertProgress = {
+	/** Number of input rows written so far */
+	processed: number;
+	/** Number of input rows */
+	total: number;
+};
+
+/** Options of `InsertQuery.run()` */
+export type InsertRunOptions = {
+	/** Resolve to the inserted rows (default: `true`); with `false`, resolve to the number of written rows without collecting them */
+	returning?: boolean;
+	/** Write the rows in chunks of this size, each committed in its own transaction (default: all rows in one transaction) */
+	chunkSize?: number;
+	/** Called after each chunk is written */
+	onProgress?: (progress: InsertProgress) => void;
+};
+
+/** Keys of numeric fields (for `sum()`, `avg()` and `increment()`) */
+export type $NumericKey<T> = {
+	[K in keyof T & string]-?: NonNullable<T[K]> extends number ? K : never;
+}[keyof T & string];
+
+/** Keys of boolean fields (for `toggle()`) */
+export type $BooleanKey<T> = {
+	[K in keyof T & string]-?: NonNullable<T[K]> extends boolean ? K : never;
+}[keyof T & string];
+
+/** Keys of array and set fields (for `append()`) */
+export type $CollectionKey<T> = {
+	[K in keyof T & string]-?: NonNullable<T[K]> extends (
+		ReadonlyArray<unknown> | ReadonlySet<unknown>
+	) ?
+		K
+	:	never;
+}[keyof T & string];
+
+/** Item type of an array or set field */
+export type $CollectionItem<V> =
+	NonNullable<V> extends ReadonlyArray<infer I> | ReadonlySet<infer I> ? I : never;
+
+/** Values to update, or a function computing them from each row (for `set()`) */
+export type UpdateSetter<T, U> = U | ((row: T) => U);
+
+/** Aggregates to compute per group in `groupBy()` */
+export type GroupAggregates<T> = {
+	/** Numeric fields to sum */
+	sum?: readonly $NumericKey<T>[];
+	/** Numeric fields to average */
+	avg?: readonly $NumericKey<T>[];
+	/** Fields to find the minimum value of */
+	min?: readonly (keyof T & string)[];
+	/** Fields to find the maximum value of */
+	max?: readonly (keyof T & string)[];
+};
+
+/** Fields listed for an aggregate in {@link GroupAggregates} */
+type $AggregateFields<A, Agg extends keyof GroupAggregates<never>> =
+	A extends { [P in Agg]: readonly (infer F extends string)[] } ? F : never;
+
+/** Row returned by `groupBy()`: group key, row count and the requested aggregates */
+export type GroupByRow<T, K extends keyof T, A extends GroupAggregates<T>> = Prettify<
+	{
+		/** Value of the grouped field */
+		key: T[K];
+		/** Number of rows in the group */
+		count: number;
+	} & ([$AggregateFields<A, 'sum'>] extends [never] ? unknown
+	:	{ sum: { [F in $AggregateFields<A, 'sum'>]: number } }) &
+		([$AggregateFields<A, 'avg'>] extends [never] ? unknown
+		:	{ avg: { [F in $AggregateFields<A, 'avg'>]: number | null } }) &
+		([$AggregateFields<A, 'min'>] extends [never] ? unknown
+		:	{ min: { [F in $AggregateFields<A, 'min'> & keyof T]: T[F] | null } }) &
+		([$AggregateFields<A, 'max'>] extends [never] ? unknown
+		:	{ max: { [F in $AggregateFields<A, 'max'> & keyof T]: T[F] | null } })
+>;
+
 /** Extract only primitive keys from an object, including nested dot-notation keys. */
 export type NestedPrimitiveKey<T> =
 	T extends AdvancedTypes ? never
@@ -356,21 +476,49 @@ export type UUIDVersion = `v${$UUIDVersion}`;
 export type UUID<V extends UUIDVersion> = Branded<$UUID, V>;
 
 /** Locality database configuration type */
-export type LocalityConfig<DB extends string, V extends number, S extends SchemaDefinition> = {
+export type LocalityConfig<
+	DB extends string,
+	V extends number,
+	S extends SchemaDefinition,
+	R extends RelationsDefinition<S> = {},
+> = {
 	/** Database name */
 	dbName: DB;
 	/** Database version */
 	version?: V;
 	/** Database schema */
 	schema: S;
+	/** Relations between tables, declared with `relations()` */
+	relations?: R;
+	/** Data migrations keyed by the version they upgrade to, run in order when upgrading an existing database */
+	migrations?: MigrationRecord<S>;
+	/** How upgrades handle stores and indexes removed from or changed in the schema (default: `'destructive'`) */
+	syncPolicy?: SchemaSyncPolicy;
+	/** Called with the schema diff of every upgrade, before it is applied; throwing aborts the upgrade */
+	onSchemaChange?: SchemaChangeHandler;
+	/** Bump the database version automatically when the store and index layout changes (`version` becomes the minimum version); cannot be combined with `migrations` */
+	autoVersion?: boolean;
+	/** Exchange committed change sets with other tabs on a `BroadcastChannel` named after the database (default: `true`) */
+	broadcast?: boolean;
+	/** Log every write (with the rows before and after it) to an internal `_changes` store, read with `db.changes` (default: `false`) */
+	changeLog?: boolean;
 };
 
 /** Column definition type - preserves both Column generics */
 export type ColumnDefinition = Record<string, Column<any, string>>;
 
-/** Validated column definition with single PK constraint */
+/**
+ * Column definition `T` mapped onto itself, to intersect with a `ColumnDefinition` constraint:
+ * keeps the value types of generic column factories (e.g. `column.text()`) inferred, which the
+ * `Column<any>` context of a plain `ColumnDefinition` constraint infers as `any`.
+ */
+export type $SelfColumnDefinition<T> = {
+	[K in keyof T]: T[K] extends Column<any, string> ? T[K] : Column<any, string>;
+};
+
+/** Validated column definition with primary key constraint */
 export type ValidatedColumnDefinition<T extends ColumnDefinition = ColumnDefinition> =
-	$ValidateSinglePK<T> extends T ? T : never;
+	$ValidatePrimaryKey<T> extends T ? T : never;
 
 /** Record of column definitions */
 export type ColumnRecord = Record<string, ColumnDefinition>;
@@ -383,23 +531,27 @@ export type SchemaRecord<T extends ColumnRecord, Keys extends keyof T> = {
 /** Schema definition type */
 export type SchemaDefinition<T extends ColumnDefinition = ColumnDefinition> = Record<
 	string,
-	Table<T>
+	Table<T, IndexDefinitionRecord>
 >;
 
 /** Helper to reliably extract the generic type parameter from a Column directly from its type parameters. */
 type ExtractColumnType<C> = C extends Column<infer T, TypeName> ? T : never;
 
+/** Value type of a column, including `null` for nullable columns. */
+type $ColumnValue<C> =
+	C extends { [IsNullable]: true } ? ExtractColumnType<C> | null : ExtractColumnType<C>;
+
 /** Extracts inferred row type from columns. */
 export type $InferRow<T extends ColumnDefinition> = Prettify<
 	Omit<
 		{
-			[K in keyof T]: ExtractColumnType<T[K]>;
+			[K in keyof T]: $ColumnValue<T[K]>;
 		},
 		$InferOptional<T>
 	> & {
-		[K in $InferOptional<T>]?: ExtractColumnType<T[K]>;
+		[K in $InferOptional<T>]?: $ColumnValue<T[K]>;
 	} & {
-		[K in $InferDefault<T> | $InferUUID<T> | $InferTimestamp<T>]: ExtractColumnType<T[K]>;
+		[K in $InferDefault<T> | $InferUUID<T> | $InferTimestamp<T>]: $ColumnValue<T[K]>;
 	}
 >;
 
@@ -418,24 +570,10 @@ export type $InferPrimaryKey<T extends ColumnDefinition> = {
 	[K in keyof T]: T[K] extends { [IsPrimaryKey]: true } ? K : never;
 }[keyof T];
 
-/** Counts the number of primary keys in a column definition. */
-type $CountPrimaryKeys<T extends ColumnDefinition> =
-	{
-		[K in keyof T]: T[K] extends { [IsPrimaryKey]: true } ? K : never;
-	}[keyof T] extends infer U ?
-		U extends never ? 0
-		: [U] extends [infer Single] ?
-			Single extends keyof T ?
-				1
-			:	never
-		:	2
-	:	never;
-
-/** Validates that a column definition has exactly one primary key. */
-export type $ValidateSinglePK<T extends ColumnDefinition> =
-	$CountPrimaryKeys<T> extends 1 ? T
-	: $CountPrimaryKeys<T> extends 0 ? 'Error: Schema must have exactly one primary key'
-	: 'Error: Schema can only have one primary key';
+/** Validates that a column definition has at least one primary key. */
+export type $ValidatePrimaryKey<T extends ColumnDefinition> =
+	[$InferPrimaryKey<T>] extends [never] ? 'Error: Schema must have at least one primary key'
+	:	T;
 
 /** Finds the field name with partial key. */
 export type $InferOptional<T extends ColumnDefinition> = {
@@ -457,6 +595,41 @@ export type $InferIndex<T extends ColumnDefinition> = {
 	[K in keyof T]: T[K] extends { [IsIndexed]: true } ? K : never;
 }[keyof T];
 
+/** Finds the field name with multi-entry index. */
+export type $InferMultiEntry<T extends ColumnDefinition> = {
+	[K in keyof T]: T[K] extends { [IsMultiEntry]: true } ? K : never;
+}[keyof T];
+
+/** Element type of a collection (`array`, `list` or `set`) value */
+export type $ElementType<T> =
+	T extends ReadonlyArray<infer E> ? E
+	: T extends ReadonlySet<infer E> ? E
+	: T;
+
+/** Finds the names of table-level (compound) indexes. */
+export type $InferCompoundIndex<S extends Table> = keyof S['indexes'] & string;
+
+/** Non-empty prefixes of a tuple, e.g. `[A, B]` becomes `[A] | [A, B]` */
+type $TuplePrefix<T> =
+	T extends readonly [] ? never
+	: T extends readonly [...infer Init, any] ? T | $TuplePrefix<Init>
+	: T;
+
+/**
+ * Query value type for an index of table `S`.
+ * - Column index or primary key: the column value type.
+ * - Multi-entry index: the element type of the collection column.
+ * - Compound index: a tuple of column values, or a prefix of it to match leading columns only.
+ */
+export type $IndexQueryValue<T extends GenericObject, S extends Table, K> =
+	K extends $InferCompoundIndex<S> ?
+		S['indexes'][K] extends IndexDefinition<infer Cols> ?
+			$TuplePrefix<$MapKeysToValues<T, Cols>>
+		:	never
+	: K extends $InferMultiEntry<S['columns']> & keyof T ? $ElementType<T[K]>
+	: K extends keyof T ? T[K]
+	: never;
+
 /**
  * Finds the field name with {@link UUID} type.
  */
@@ -487,6 +660,299 @@ export type SortDirection = 'asc' | 'desc';
 /** Predicate function type for WHERE clauses in queries */
 export type WherePredicate<T extends GenericObject> = (row: T) => boolean;
 
+/** Comparison operators of the query condition DSL */
+export type ComparisonOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte';
+
+/** Node of a query condition tree built with operator functions ({@link eq}, {@link and} etc.) */
+export type ConditionNode =
+	| { readonly op: ComparisonOperator; readonly field: string; readonly value: unknown }
+	| {
+			readonly op: 'between';
+			readonly field: string;
+			readonly min: unknown;
+			readonly max: unknown;
+	  }
+	| { readonly op: 'inArray'; readonly field: string; readonly values: readonly unknown[] }
+	| { readonly op: 'like' | 'ilike'; readonly field: string; readonly pattern: string }
+	| { readonly op: 'isNull'; readonly field: string }
+	| { readonly op: 'and' | 'or'; readonly conditions: readonly ConditionNode[] }
+	| { readonly op: 'not'; readonly condition: ConditionNode };
+
+/** Phantom key holding the row shape required by a {@link QueryCondition} */
+declare const RowShape: unique symbol;
+
+/**
+ * Query condition built with operator functions ({@link eq}, {@link gt}, {@link and} etc.).
+ * - `R` is the row shape the condition requires, so a condition on a missing field or with a mismatched value type is rejected by `where()`.
+ */
+export type QueryCondition<R = any> = ConditionNode & {
+	readonly [RowShape]?: (row: R) => void;
+};
+
+/** Row shape required by a field condition: value of field `K` compared with `V` (or elements of a collection) */
+export type $ConditionRow<K extends string, V> = {
+	[P in K]?: V | null | readonly V[] | ReadonlySet<V>;
+};
+
+/** Where clause added to a query builder (all clauses are combined with `AND`) */
+export type WhereClause<T extends GenericObject> =
+	| { readonly kind: 'predicate'; readonly predicate: WherePredicate<T> }
+	| {
+			readonly kind: 'index';
+			readonly index: KeyPath;
+			readonly query: IDBKeyRange | IDBValidKey;
+	  }
+	| { readonly kind: 'condition'; readonly condition: ConditionNode };
+
+/** How the query planner reads rows */
+export type QueryAccess = 'primaryKey' | 'uniqueIndex' | 'index' | 'fullScan';
+
+/** Plan to read rows for the where clauses of a query */
+export type QueryPlan<T extends GenericObject> = {
+	/** Object store or index to read rows from */
+	source: IDBObjectStore | IDBIndex;
+	/** Key or key range to read, `null` to read all rows */
+	range: IDBKeyRange | IDBValidKey | null;
+	/** How rows are read */
+	access: QueryAccess;
+	/** In-memory filter for the clauses not enforced by the key range */
+	filter?: WherePredicate<T>;
+	/** Descriptions of the clauses checked in memory */
+	residual: string[];
+};
+
+/** Query plan report returned by `explain()` */
+export type QueryExplanation = {
+	/** Table (store) name */
+	table: string;
+	/** How rows are read: primary key, unique index, plain index or full table scan */
+	access: QueryAccess;
+	/** Name of the index (or primary key path) used to read rows */
+	index?: KeyPath;
+	/** Description of the key or key range read, e.g. `>= 18 AND < 65` */
+	range?: string;
+	/** Descriptions of the where clauses checked in memory on the rows read */
+	residual: string[];
+	/** Ordering of the results, if any */
+	sort?: {
+		/** Field or index name */
+		key: string;
+		/** Sort direction */
+		direction: SortDirection;
+		/** Whether rows are read in index order or sorted in memory */
+		using: 'index' | 'memory';
+	};
+	/** Maximum number of results, if any */
+	limit?: number;
+	/** Number of matching rows skipped, if any */
+	offset?: number;
+};
+
+/** Kind of a relation: a single related record or a list of them */
+export type RelationKind = 'one' | 'many';
+
+/** Join table of a many-to-many relation */
+export type RelationThrough = {
+	/** Join table name */
+	table: string;
+	/** Field of the join table matching the source field */
+	field: string;
+	/** Field of the join table matching the related field */
+	references: string;
+};
+
+/** Relation from a table to another, declared with `relations()` */
+export type Relation<K extends RelationKind = RelationKind, To extends string = string> = {
+	/** Kind of the relation */
+	kind: K;
+	/** Related table name */
+	table: To;
+	/** Field of the source table */
+	field: string;
+	/** Field of the related table matching `field` (or the join table's `references`) */
+	references: string;
+	/** Join table of a many-to-many relation */
+	through?: RelationThrough;
+};
+
+/** Relations of a table, keyed by relation name */
+export type RelationRecord = Record<string, Relation>;
+
+/** Relations of a schema, keyed by table name */
+export type RelationsDefinition<Schema = SchemaDefinition> = {
+	[K in keyof Schema]?: RelationRecord;
+};
+
+/** Column names of a table in a schema */
+type $FieldOf<
+	Schema extends SchemaDefinition,
+	T extends keyof Schema,
+> = keyof Schema[T]['columns'] & string;
+
+/** Config of a one-to-one, many-to-one or one-to-many relation */
+export type RelationConfig<
+	Schema extends SchemaDefinition,
+	From extends keyof Schema,
+	To extends keyof Schema,
+> = {
+	/** Field of the source table */
+	field: $FieldOf<Schema, From>;
+	/** Field of the related table holding the same value */
+	references: $FieldOf<Schema, To>;
+};
+
+/** Config of a many-to-many relation through a join table */
+export type RelationThroughConfig<
+	Schema extends SchemaDefinition,
+	From extends keyof Schema,
+	To extends keyof Schema,
+	Join extends keyof Schema,
+> = RelationConfig<Schema, From, To> & {
+	/** Join table linking `field` of the source table to `references` of the related table */
+	through: {
+		/** Join table name */
+		table: Join;
+		/** Field of the join table matching `field` of the source table */
+		field: $FieldOf<Schema, Join>;
+		/** Field of the join table matching `references` of the related table */
+		references: $FieldOf<Schema, Join>;
+	};
+};
+
+/** Relation builders passed to the `relations()` callback of a table */
+export type RelationHelpers<Schema extends SchemaDefinition, From extends keyof Schema> = {
+	/** Declare a relation to a single record (one-to-one or many-to-one) */
+	one<To extends keyof Schema & string>(
+		table: To,
+		config: RelationConfig<Schema, From, To>
+	): Relation<'one', To>;
+
+	/** Declare a relation to a list of records (one-to-many, or many-to-many with `through`) */
+	many<To extends keyof Schema & string, Join extends keyof Schema & string = never>(
+		table: To,
+		config: RelationConfig<Schema, From, To> | RelationThroughConfig<Schema, From, To, Join>
+	): Relation<'many', To>;
+};
+
+/** Relation builder callbacks for `relations()`, keyed by table name */
+export type RelationsBuilder<Schema extends SchemaDefinition> = {
+	[K in keyof Schema]?: (helpers: RelationHelpers<Schema, K>) => RelationRecord;
+};
+
+/** Relations declared by a {@link RelationsBuilder} */
+export type $InferRelations<B> = {
+	[K in keyof B]: B[K] extends (...args: any[]) => infer R ? R : never;
+};
+
+/** Runtime schema and relations used to eager load related records */
+export type RelationGraph = {
+	/** Database schema */
+	schema: SchemaDefinition;
+	/** Relations between tables */
+	relations: RelationsDefinition;
+};
+
+/** Type-level scope of a select query for eager loading: schema, relations and table name */
+export type $RelationScope<Schema = SchemaDefinition, Relations = {}, Name = string> = {
+	schema: Schema;
+	relations: Relations;
+	table: Name;
+};
+
+/** Relations declared on the table of a scope */
+type $ScopeRelations<Scope> =
+	Scope extends $RelationScope<any, infer R, infer N> ?
+		N extends keyof R ?
+			NonNullable<R[N]>
+		:	{}
+	:	{};
+
+/** Scope of the related table of a relation */
+type $RelatedScope<Scope, Rel> =
+	Scope extends $RelationScope<infer S, infer R> ?
+		Rel extends Relation<RelationKind, infer To> ?
+			$RelationScope<S, R, To>
+		:	never
+	:	never;
+
+/** Relations to eager load with `with()`, each `true` or with nested relations */
+export type WithOptions<Scope> = {
+	[K in keyof $ScopeRelations<Scope>]?:
+		| true
+		| {
+				/** Nested relations to load on the related records */
+				with?: WithOptions<$RelatedScope<Scope, $ScopeRelations<Scope>[K]>>;
+		  };
+};
+
+/** Related record with its nested eager loaded relations */
+type $LoadedRow<Scope, Option> =
+	Scope extends $RelationScope<infer S extends SchemaDefinition, any, infer N> ?
+		N extends keyof S ?
+			Prettify<
+				InferSelectType<S[N]> &
+					(Option extends { with: infer W } ? $WithResult<Scope, W> : {})
+			>
+		:	never
+	:	never;
+
+/** Fields added to rows by eager loading relations with `with()` */
+export type $WithResult<Scope, W> = {
+	[K in keyof W & keyof $ScopeRelations<Scope>]: $ScopeRelations<Scope>[K] extends (
+		Relation<infer Kind>
+	) ?
+		Kind extends 'one' ?
+			$LoadedRow<$RelatedScope<Scope, $ScopeRelations<Scope>[K]>, W[K]> | null
+		:	$LoadedRow<$RelatedScope<Scope, $ScopeRelations<Scope>[K]>, W[K]>[]
+	:	never;
+};
+
+/** What happens to referencing rows when a referenced row is deleted */
+export type ForeignKeyAction = 'cascade' | 'restrict' | 'setNull';
+
+/** Options for a foreign key declared with `references()` */
+export type ForeignKeyOptions = {
+	/**
+	 * Policy applied to referencing rows when the referenced row is deleted. Defaults to `'restrict'`.
+	 * - `'cascade'`: delete the referencing rows too.
+	 * - `'restrict'`: reject the delete while referencing rows exist.
+	 * - `'setNull'`: remove the value from the referencing rows (the column must be optional).
+	 */
+	onDelete?: ForeignKeyAction;
+};
+
+/** Foreign key config stored on a column by `references()` */
+export type ForeignKeyConfig = {
+	/** Getter of the referenced column */
+	column: () => Column;
+	/** Delete policy */
+	onDelete: ForeignKeyAction;
+};
+
+/** Foreign key resolved against the schema */
+export type ForeignKey = {
+	/** Referencing table name */
+	table: string;
+	/** Referencing column name */
+	column: string;
+	/** Referenced table name */
+	refTable: string;
+	/** Referenced column name */
+	refColumn: string;
+	/** Delete policy */
+	onDelete: ForeignKeyAction;
+	/** Whether the referencing column is nullable (`setNull` stores `null` instead of removing the value) */
+	isNullable: boolean;
+};
+
+/** Row shape required by a query condition */
+export type $ConditionShape<C> = C extends QueryCondition<infer R> ? R : never;
+
+/** Merged row shape required by a list of conditions */
+export type $ConditionRows<C extends readonly QueryCondition[]> = $UnionToIntersection<
+	$ConditionShape<C[number]>
+>;
+
 /** Creates a type for insert operations with auto-generated fields optional. */
 export type InferInsertType<T extends Table> = Prettify<
 	Omit<
@@ -496,10 +962,6 @@ export type InferInsertType<T extends Table> = Prettify<
 		| $InferTimestamp<T['columns']>
 		| $InferUUID<T['columns']>
 	> & {
-		[K in $InferNullable<T['columns']>]: K extends keyof $InferRow<T['columns']> ?
-			$InferRow<T['columns']>[K] | null
-		:	never;
-	} & {
 		[K in
 			| $InferAutoInc<T['columns']>
 			| $InferDefault<T['columns']>
@@ -524,9 +986,22 @@ export type InferSelectType<S extends Table> = Prettify<
 	:	never
 >;
 
-export type PrimaryKeyType<S extends Table> = InferSelectType<S>[$InferPrimaryKey<
-	S['columns']
->];
+/** Maps a tuple of keys to a tuple of the corresponding value types of `T`. */
+type $MapKeysToValues<T, Keys> = { [I in keyof Keys]: T[Keys[I] & keyof T] };
+
+/**
+ * Primary key value of a row `T` of table `S`.
+ * - Single primary key: the value type of that column.
+ * - Composite primary key: a tuple of values in the order of the `primaryKey` table option.
+ */
+export type $PrimaryKeyValue<T extends GenericObject, S extends Table> =
+	NonNullable<S['options']['primaryKey']> extends readonly [string, string, ...string[]] ?
+		$MapKeysToValues<T, NonNullable<S['options']['primaryKey']>>
+	: [$InferPrimaryKey<S['columns']>] extends [never] ? T[keyof T]
+	: T[$InferPrimaryKey<S['columns']> & keyof T];
+
+/** Primary key value type of a table, a tuple for composite primary keys. */
+export type PrimaryKeyType<S extends Table> = $PrimaryKeyValue<InferSelectType<S>, S>;
 
 export type IndexKeyType<S extends Table> = InferSelectType<S>[$InferIndex<S['columns']>];
 
@@ -565,29 +1040,189 @@ export type Email = `${string}@${string}.${string}`;
 /** URL string type in basic format */
 export type URLString = `${string}://${string}`;
 
+/** Key path of a store or index: a single field name or an array of field names (compound key) */
+export type KeyPath = string | string[];
+
 /** Index configuration type for `IndexedDB` */
 export type IndexConfig = {
 	/** Index name (typically the field name) */
 	name: string;
-	/** Key path for the index */
-	keyPath: string;
+	/** Key path for the index, an array for compound indexes */
+	keyPath: KeyPath;
 	/** Whether the index enforces unique values */
 	unique?: boolean;
+	/** Whether each element of an array value is indexed separately */
+	multiEntry?: boolean;
+};
+
+/** Options for column-level indexes created with {@link Column.index()} */
+export type IndexOptions = {
+	/** Index each element of an `array`, `list` or `set` column separately (default: `false`) */
+	multiEntry?: boolean;
+};
+
+/** Table-level (compound) index definition created by {@link index} or {@link unique} */
+export type IndexDefinition<K extends readonly string[] = readonly string[]> = {
+	/** Column names forming the index key path (in order) */
+	readonly columns: K;
+	/** Whether the index enforces unique values across the combined columns */
+	readonly unique: boolean;
+};
+
+/** Record of named table-level index definitions */
+export type IndexDefinitionRecord = Record<string, IndexDefinition>;
+
+/** Record of named index definitions restricted to the columns of `C` */
+export type ColumnIndexRecord<C extends ColumnDefinition> = Record<
+	string,
+	IndexDefinition<readonly (keyof C & string)[]>
+>;
+
+/** Table-level options for {@link Table} definitions */
+export type TableOptions<
+	I extends IndexDefinitionRecord = IndexDefinitionRecord,
+	C extends ColumnDefinition = ColumnDefinition,
+	P extends readonly string[] = readonly string[],
+> = {
+	/** Order of the primary key columns in a composite key, required when more than one column is marked with `pk()` */
+	primaryKey?: P;
+	/** Named compound indexes, keyed by index name */
+	indexes?: I;
+	/** Lifecycle hooks run inside the write transactions of the table */
+	hooks?: TableHooks<Table<C, I>>;
+	/** Nullable timestamp column stamped by deletes instead of removing rows, which reads then leave out (see {@link $InferSoftDeleteKey}) */
+	softDelete?: string;
+};
+
+/**
+ * Options argument of {@link table}: optional, but required (with `primaryKey`) when more than
+ * one column is marked with `pk()`, as the column order of a composite key cannot be inferred.
+ */
+export type $TableOptionsArgs<
+	C extends ColumnDefinition,
+	I extends IndexDefinitionRecord,
+	P extends readonly string[],
+> =
+	true extends $IsUnion<$InferPrimaryKey<C>> ?
+		[
+			options: TableOptions<I, C, P> & {
+				primaryKey: P;
+				softDelete?: $InferSoftDeleteKey<C>;
+			},
+		]
+	:	[options?: TableOptions<I, C, P> & { softDelete?: $InferSoftDeleteKey<C> }];
+
+/** Finds the names of nullable timestamp columns (usable as soft delete column). */
+export type $InferSoftDeleteKey<T extends ColumnDefinition> = {
+	[K in keyof T]: T[K] extends { [ColumnType]: 'timestamp'; [IsNullable]: true } ? K : never;
+}[keyof T] &
+	string;
+
+/** Rows of a soft delete table read by a query: not deleted (`'exclude'`), all (`'include'`) or deleted (`'only'`) */
+export type SoftDeleteScope = 'exclude' | 'include' | 'only';
+
+/** Context passed to table lifecycle hooks */
+export type HookContext = {
+	/** Name of the table being written */
+	table: string;
+	/** The write transaction, for reading or writing other tables in its scope */
+	transaction: IDBTransaction;
+};
+
+/**
+ * Lifecycle hooks of a table, run inside the write transaction (a thrown error rolls it back).
+ * - Hooks may be async, but only requests on `context.transaction` may be awaited.
+ */
+export type TableHooks<T extends Table = Table> = {
+	/** Runs before each row is validated and inserted; return a row to replace it, throw to reject it */
+	beforeInsert?(
+		row: InferInsertType<T>,
+		context: HookContext
+	): InferInsertType<T> | void | Promise<InferInsertType<T> | void>;
+	/** Runs after the rows are inserted, with the stored rows */
+	afterInsert?(rows: InferSelectType<T>[], context: HookContext): void | Promise<void>;
+	/** Runs before each matched row is validated and updated, with the updated and the current row; return a row to replace the update, throw to reject it */
+	beforeUpdate?(
+		row: InferSelectType<T>,
+		current: InferSelectType<T>,
+		context: HookContext
+	): InferSelectType<T> | void | Promise<InferSelectType<T> | void>;
+	/** Runs after the rows are deleted, with the deleted rows */
+	afterDelete?(rows: InferSelectType<T>[], context: HookContext): void | Promise<void>;
 };
 
 /** Store configuration type for `IndexedDB` */
 export type StoreConfig = {
 	/** Store name */
 	name: string;
-	// TODO: Handle multiple primary keys later
-	/** Primary key path(s) */
-	keyPath?: string;
+	/** Primary key path(s), an array for composite primary keys */
+	keyPath?: KeyPath;
 	/** Whether the primary key is auto-incrementing */
 	autoIncrement?: boolean;
 	/** Array of index configurations for this store */
 	indexes?: IndexConfig[];
 };
 
+/** How an upgrade handles stores and indexes removed from or changed in the schema */
+export type SchemaSyncPolicy = 'strict' | 'preserve' | 'destructive';
+
+/** Index of a store in a {@link SchemaDiff} */
+export type SchemaIndexRef = {
+	/** Store name */
+	store: string;
+	/** Index name */
+	index: string;
+};
+
+/** Differences between the stores and indexes of a database and the schema, computed on upgrade */
+export type SchemaDiff = {
+	/** Version the database is upgraded from (`0` for a new database) */
+	oldVersion: number;
+	/** Version the database is upgraded to */
+	newVersion: number;
+	/** Stores in the schema but not in the database */
+	addedStores: string[];
+	/** Stores in the database but not in the schema */
+	removedStores: string[];
+	/** Stores whose primary key or auto increment differs from the schema */
+	changedStores: string[];
+	/** Indexes in the schema but not in the database (of stores in both) */
+	addedIndexes: SchemaIndexRef[];
+	/** Indexes in the database but not in the schema (of stores in both) */
+	removedIndexes: SchemaIndexRef[];
+	/** Indexes whose key path, `unique` or `multiEntry` differs from the schema (of stores in both) */
+	changedIndexes: SchemaIndexRef[];
+};
+
+/** Callback receiving the schema diff of an upgrade */
+export type SchemaChangeHandler = (diff: SchemaDiff) => void;
+
+/** Options for {@link openDBWithStores} */
+export type OpenDBOptions = {
+	/** Data migrations keyed by the version they upgrade to */
+	migrations?: MigrationRecord;
+	/** How removed and changed stores and indexes are handled (default: `'destructive'`) */
+	syncPolicy?: SchemaSyncPolicy;
+	/** Called with the schema diff of every upgrade, before it is applied; throwing aborts the upgrade */
+	onSchemaChange?: SchemaChangeHandler;
+	/** Store a snapshot of the store and index layout in a metadata store on every upgrade */
+	trackSchema?: boolean;
+	/** Called when opening waits for other connections to close (e.g. other tabs on an older version) */
+	onBlocked?: (event: IDBVersionChangeEvent) => void;
+};
+
+/** Snapshot of the store and index layout, stored on upgrade when schema tracking is enabled */
+export type StoredSchema = {
+	/** Hash of the store and index layout */
+	fingerprint: string;
+	/** Database version the snapshot was stored with */
+	version: number;
+	/** Store and index layout */
+	stores: StoreConfig[];
+	/** When the snapshot was stored */
+	updatedAt: Timestamp;
+};
+
 /** Export options for database `export` method */
 export type ExportOptions<T extends string> = {
 	/** Optional array of table names to export (exports all if not specified) */
@@ -640,6 +1275,7 @@ export type TransactionContext<
 	Schema extends SchemaDefinition,
 	TName extends keyof Schema,
 	Tables extends TName[],
+	Relations extends RelationsDefinition<Schema> = {},
 > = {
 	/** Inserts a new record into the specified table */
 	insert: <
@@ -660,12 +1296,22 @@ export type TransactionContext<
 	/** Deletes a record from the specified table */
 	delete: <T extends Tables[number], Row extends $InferRow<Schema[T]['columns']>>(
 		table: T
-	) => DeleteQuery<Row, keyof Row, Schema[T]>;
+	) => DeleteQuery<Row, Schema[T]>;
+
+	/** Deletes records from the specified table, including soft-deleted rows */
+	forceDelete: <T extends Tables[number], Row extends $InferRow<Schema[T]['columns']>>(
+		table: T
+	) => DeleteQuery<Row, Schema[T]>;
+
+	/** Restores soft-deleted records of the specified table */
+	restore: <T extends Tables[number], Row extends $InferRow<Schema[T]['columns']>>(
+		table: T
+	) => UpdateQuery<Row, Schema[T]>;
 
 	/** Retrieves a record by primary key from the specified table */
 	from: <T extends Tables[number], Row extends $InferRow<Schema[T]['columns']>>(
 		table: T
-	) => SelectQuery<Row, null, Schema[T]>;
+	) => SelectQuery<Row, null, Schema[T], $RelationScope<Schema, Relations, T & string>>;
 };
 
 /** Transaction callback function type */
@@ -673,4 +1319,133 @@ export type TransactionCallback<
 	Schema extends SchemaDefinition,
 	TName extends keyof Schema,
 	Tables extends TName[],
-> = (ctx: TransactionContext<Schema, TName, Tables>) => Promise<void>;
+	Relations extends RelationsDefinition<Schema> = {},
+> = (ctx: TransactionContext<Schema, TName, Tables, Relations>) => Promise<void>;
+
+/** Table name in a migration: a schema table or a store that only exists in older versions */
+export type MigrationTable<Schema extends SchemaDefinition = SchemaDefinition> = LooseLiteral<
+	keyof Schema & string
+>;
+
+/** Upgrade context passed to a migration, bound to the `versionchange` transaction */
+export type MigrationContext<Schema extends SchemaDefinition = SchemaDefinition> = {
+	/** Version the database is upgraded from */
+	oldVersion: number;
+	/** Version the database is upgraded to */
+	newVersion: number;
+	/** Version of the running migration step */
+	version: number;
+	/** The underlying `versionchange` transaction */
+	transaction: IDBTransaction;
+
+	/** Read all records of a table (as stored, in the shape of older versions) */
+	getAll(table: MigrationTable<Schema>): Promise<GenericObject[]>;
+
+	/** Insert or replace a record */
+	put(table: MigrationTable<Schema>, record: GenericObject): Promise<IDBValidKey>;
+
+	/** Delete the records matching a primary key or key range */
+	delete(table: MigrationTable<Schema>, key: IDBValidKey | IDBKeyRange): Promise<void>;
+
+	/** Delete all records of a table */
+	clear(table: MigrationTable<Schema>): Promise<void>;
+
+	/**
+	 * Rewrite every record of a table.
+	 * @param updater Returns the new record, `null` to delete the record or `undefined` to keep it unchanged (the primary key must not change).
+	 * @returns Number of rewritten or deleted records
+	 */
+	update(
+		table: MigrationTable<Schema>,
+		updater: (record: GenericObject) => GenericObject | null | undefined
+	): Promise<number>;
+
+	/**
+	 * Rename a field in every record of a table.
+	 * @returns Number of records having the field
+	 */
+	renameField(table: MigrationTable<Schema>, from: string, to: string): Promise<number>;
+};
+
+/** Data migration step; only operations of the context may be awaited */
+export type MigrationFn<Schema extends SchemaDefinition = SchemaDefinition> = (
+	ctx: MigrationContext<Schema>
+) => void | Promise<void>;
+
+/** Migrations keyed by the version they upgrade to */
+export type MigrationRecord<Schema extends SchemaDefinition = SchemaDefinition> = Record<
+	number,
+	MigrationFn<Schema>
+>;
+
+/** Kind of write recorded in a {@link ChangeSet} */
+export type ChangeOp = 'insert' | 'update' | 'delete' | 'clear';
+
+/** Write to a table recorded in a {@link ChangeSet} */
+export type TableChange = {
+	/** Name of the written table */
+	table: string;
+	/** Kind of write */
+	op: ChangeOp;
+	/** Primary keys of the written rows, `null` when the whole table changed (`clear`) */
+	keys: IDBValidKey[] | null;
+};
+
+/** Writes committed by a transaction, in order */
+export type ChangeSet = TableChange[];
+
+/** Write recorded in the change log (enabled with the `changeLog` option of {@link Locality}) */
+export type ChangeLogEntry = {
+	/** Sequence number, increasing with every logged write */
+	seq: number;
+	/** Name of the written table */
+	table: string;
+	/** Primary key of the written row, `null` for `clear` */
+	key: IDBValidKey | null;
+	/** Kind of write */
+	op: ChangeOp;
+	/** Row as stored before the write, `null` for inserts and `clear` */
+	before: GenericObject | null;
+	/** Row as stored after the write, `null` for deletes and `clear` */
+	after: GenericObject | null;
+	/** Time of the write */
+	timestamp: Timestamp;
+};
+
+/** Committed changes, emitted as the `change` event of {@link Locality.on} */
+export type ChangeEvent = {
+	/** Writes committed by the transaction */
+	changes: ChangeSet;
+	/** Whether the transaction was committed in another tab (received through a `BroadcastChannel`) */
+	remote: boolean;
+};
+
+/** Listener of committed changes */
+export type ChangeListener = (event: ChangeEvent) => void;
+
+/** Version change of the database, emitted as the `versionchange` and `blocked` events of {@link Locality.on} */
+export type VersionEvent = {
+	/** Current version of the database */
+	oldVersion: number;
+	/** Requested version, `null` when the database is being deleted */
+	newVersion: number | null;
+};
+
+/** Listener of version events */
+export type VersionListener = (event: VersionEvent) => void;
+
+/** Events emitted by {@link Locality.on} */
+export type LocalityEventMap = {
+	/** Writes committed in this tab or another one */
+	change: ChangeEvent;
+	/** Another connection requested a version change; the connection is closed and reopened (unless the database is deleted) */
+	versionchange: VersionEvent;
+	/** Opening or upgrading the database waits for other connections to close */
+	blocked: VersionEvent;
+};
+
+/** Removes a subscription */
+export type Unsubscribe = () => void;
+
+/** Callback receiving the results of a live query */
+export type LiveQueryCallback<T> = (rows: T[]) => void;
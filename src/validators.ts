@@ -20,11 +20,14 @@ import {
 	ColumnType,
 	DefaultValue,
 	IsAutoInc,
+	IsMultiEntry,
+	IsNullable,
 	IsOptional,
 	OnUpdate,
 	ValidateFn,
 } from './core';
-import type { ColumnDefinition, GenericObject, Maybe, TypeName } from './types';
+import { _isKeyPathField } from './helpers';
+import type { ColumnDefinition, GenericObject, KeyPath, Maybe, TypeName } from './types';
 import { getTimestamp, isEmail, isTimestamp, isURL, uuidV4 } from './utils';
 
 /**
@@ -161,7 +164,7 @@ export function validateColumnType<T extends TypeName>(type: T, value: unknown):
  *
  * @param data The data object to validate and prepare
  * @param columns The column definitions
- * @param keyPath The key path of the primary key column (if any)
+ * @param keyPath The key path of the primary key column(s) (if any)
  * @param tableName The name of the table
  * @param forUpdate Whether the operation is an update (default: `false`)
  *
@@ -173,7 +176,7 @@ export function validateColumnType<T extends TypeName>(type: T, value: unknown):
 export function validateAndPrepareData<Data extends GenericObject>(
 	data: Data,
 	columns: Maybe<ColumnDefinition>,
-	keyPath: Maybe<string>,
+	keyPath: Maybe<KeyPath>,
 	tableName: string,
 	forUpdate = false
 ): Data {
@@ -200,6 +203,8 @@ export function validateAndPrepareData<Data extends GenericObject>(
 			const isOptional = column[IsOptional] ?? false;
 			const onUpdate = column[OnUpdate];
 
+			const isKeyField = _isKeyPathField(keyPath, fieldName);
+
 			let fieldNotPresent = !(fieldName in prepared);
 
 			// ! Auto-generate values for insert (not update)
@@ -216,9 +221,10 @@ export function validateAndPrepareData<Data extends GenericObject>(
 					return; // Skip validation for auto-generated
 				}
 
-				// Apply default value
+				// Apply default value (generators receive the row prepared so far)
 				if (!isUndefined(defaultValue)) {
-					prepared[fieldName] = defaultValue;
+					prepared[fieldName] =
+						isFunction(defaultValue) ? defaultValue({ ...prepared }) : defaultValue;
 					fieldNotPresent = false; // Update flag after applying default
 				}
 			}
@@ -238,7 +244,7 @@ export function validateAndPrepareData<Data extends GenericObject>(
 				if (forUpdate && !isFunction(onUpdate)) return;
 
 				// For inserts, check if field is required
-				if (!isOptional && fieldName !== keyPath) {
+				if (!isOptional && !isKeyField) {
 					throw new RangeError(
 						`Required field '${String(fieldName)}' is missing in table '${tableName}'!`
 					);
@@ -251,7 +257,7 @@ export function validateAndPrepareData<Data extends GenericObject>(
 			// ! Handle undefined values
 			if (isUndefined(fieldValue)) {
 				// Undefined is only allowed for optional fields
-				if (!isOptional && fieldName !== keyPath) {
+				if (!isOptional && !isKeyField) {
 					throw new TypeError(
 						`Field '${String(fieldName)}' in table '${tableName}' cannot be undefined. It is a required field.`
 					);
@@ -260,10 +266,12 @@ export function validateAndPrepareData<Data extends GenericObject>(
 				return; // Skip validation for undefined optional fields
 			}
 
+			// ! Nullable columns accept `null` without type or custom validation
+			if (fieldValue === null && column[IsNullable]) return;
+
 			// ! Validate the value type
 			// Skip validation for primary key during inserts ONLY if auto-increment
-			const shouldSkip =
-				!forUpdate && fieldName === keyPath && (column[IsAutoInc] ?? false);
+			const shouldSkip = !forUpdate && isKeyField && (column[IsAutoInc] ?? false);
 
 			if (!shouldSkip) {
 				const customValidator = column[ValidateFn];
@@ -282,6 +290,11 @@ export function validateAndPrepareData<Data extends GenericObject>(
 					);
 				}
 			}
+
+			// ! Sets are not valid keys: store multi-entry indexed sets as arrays
+			if (column[IsMultiEntry] && isSet(prepared[fieldName])) {
+				prepared[fieldName] = [...prepared[fieldName]] as Data[Key];
+			}
 		});
 	}
 